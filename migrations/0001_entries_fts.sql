@@ -0,0 +1,16 @@
+-- Add the full-text search index and backfill it from existing entries.
+-- Backfilled summary/content keep their HTML; entries fetched afterwards are indexed as plain text.
+CREATE VIRTUAL TABLE IF NOT EXISTS entries_fts USING fts5(
+    entry_id UNINDEXED,
+    title,
+    summary,
+    content,
+    tags,
+    tokenize = 'porter unicode61'
+);
+
+INSERT INTO entries_fts (entry_id, title, summary, content, tags)
+SELECT e.id, e.title, e.summary, e.content,
+       (SELECT group_concat(t.value, ' ') FROM json_each(CASE WHEN json_valid(e.tags) THEN e.tags ELSE '[]' END) t)
+FROM entries e
+WHERE e.id NOT IN (SELECT entry_id FROM entries_fts);
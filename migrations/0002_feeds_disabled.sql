@@ -0,0 +1,2 @@
+-- Allow sources to be disabled via the admin API without deleting them
+ALTER TABLE feeds ADD COLUMN disabled INTEGER NOT NULL DEFAULT 0;
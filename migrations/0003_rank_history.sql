@@ -0,0 +1,12 @@
+-- Audit trail for rank changes
+CREATE TABLE IF NOT EXISTS rank_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    old_rank INTEGER,
+    new_rank INTEGER,
+    source TEXT NOT NULL,
+    changed_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_rank_history_feed_id ON rank_history(feed_id, changed_at);
@@ -0,0 +1,7 @@
+-- Per-feed adaptive fetch scheduling
+ALTER TABLE feeds ADD COLUMN next_fetch_at TEXT;
+ALTER TABLE feeds ADD COLUMN post_interval_hours REAL;
+ALTER TABLE feeds ADD COLUMN not_modified_rate REAL NOT NULL DEFAULT 0;
+ALTER TABLE feeds ADD COLUMN publisher_interval INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_feeds_next_fetch_at ON feeds(next_fetch_at);
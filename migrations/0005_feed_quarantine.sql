@@ -0,0 +1,2 @@
+-- Circuit breaker: quarantine feeds after repeated consecutive failures
+ALTER TABLE feeds ADD COLUMN quarantined_at TEXT;
@@ -0,0 +1,2 @@
+-- Persist the classified category of each feed's last fetch error
+ALTER TABLE feeds ADD COLUMN last_error_category TEXT;
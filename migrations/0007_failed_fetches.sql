@@ -0,0 +1,18 @@
+-- Record dead-lettered feed fetches for inspection and replay
+CREATE TABLE IF NOT EXISTS failed_fetches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    feed_name TEXT NOT NULL,
+    feed_url TEXT NOT NULL,
+    message TEXT NOT NULL,          -- Original FeedFetchMessage as JSON
+    attempts INTEGER,               -- Deliveries before dead-lettering
+    last_error TEXT,
+    last_error_category TEXT,
+    first_queued_at TEXT,           -- When the message was first enqueued
+    dead_lettered_at TEXT NOT NULL,
+    replayed_at TEXT,
+    replay_count INTEGER DEFAULT 0,
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_fetches_feed_id ON failed_fetches(feed_id, dead_lettered_at);
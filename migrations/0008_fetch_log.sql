@@ -0,0 +1,16 @@
+-- Per-fetch history for source health summaries
+CREATE TABLE IF NOT EXISTS fetch_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    fetched_at TEXT NOT NULL,
+    status INTEGER,                 -- HTTP status; NULL when no response arrived
+    duration_ms INTEGER NOT NULL,
+    bytes INTEGER DEFAULT 0,
+    not_modified INTEGER DEFAULT 0, -- 1 for 304 responses
+    new_entries INTEGER DEFAULT 0,
+    error_category TEXT,            -- NULL on success
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_fetch_log_feed_id ON fetch_log(feed_id, fetched_at);
+CREATE INDEX IF NOT EXISTS idx_fetch_log_fetched_at ON fetch_log(fetched_at);
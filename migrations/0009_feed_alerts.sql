@@ -0,0 +1,22 @@
+-- Stale-feed detection and webhook alert state
+ALTER TABLE feeds ADD COLUMN last_success_at TEXT;
+ALTER TABLE feeds ADD COLUMN last_new_entry_at TEXT;
+ALTER TABLE feeds ADD COLUMN moved_to TEXT;
+
+-- Best-effort backfill so existing sources don't all alert on the first run
+UPDATE feeds SET last_success_at = last_fetched WHERE error_count = 0;
+UPDATE feeds SET last_new_entry_at = (SELECT MAX(created_at) FROM entries WHERE entries.feed_id = feeds.id);
+
+CREATE TABLE IF NOT EXISTS feed_alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    kind TEXT NOT NULL,             -- no_new_entries, fetch_failing or moved
+    detail TEXT,
+    detected_at TEXT NOT NULL,
+    last_notified_at TEXT,          -- NULL until a webhook accepted the alert
+    resolved_at TEXT,               -- NULL while the condition lasts
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+-- At most one open alert per feed and kind
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feed_alerts_active ON feed_alerts(feed_id, kind) WHERE resolved_at IS NULL;
@@ -0,0 +1,12 @@
+-- Persist permanent redirects: confirm them over several fetches, keep old URLs
+ALTER TABLE feeds ADD COLUMN moved_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS feed_url_aliases (
+    url TEXT PRIMARY KEY,           -- Former feed URL
+    feed_id INTEGER NOT NULL,
+    replaced_by TEXT NOT NULL,      -- URL it permanently redirected to
+    replaced_at TEXT NOT NULL,
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_url_aliases_feed_id ON feed_url_aliases(feed_id);
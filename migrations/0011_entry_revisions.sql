@@ -0,0 +1,20 @@
+-- Detect upstream edits to entries and keep their previous versions
+-- Existing rows get a hash on their next fetch without counting as edited
+ALTER TABLE entries ADD COLUMN content_hash TEXT;
+
+CREATE TABLE IF NOT EXISTS entry_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    entry_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    link TEXT NOT NULL,
+    summary TEXT,
+    content TEXT,
+    author TEXT,
+    tags TEXT,
+    updated TEXT,
+    content_hash TEXT,
+    replaced_at TEXT NOT NULL,      -- When upstream replaced this version
+    FOREIGN KEY (entry_id) REFERENCES entries(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_revisions_entry_id ON entry_revisions(entry_id);
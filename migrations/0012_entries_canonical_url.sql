@@ -0,0 +1,5 @@
+-- Canonical article URL for collapsing entries about the same article across feeds
+-- Existing rows stay NULL; the generator computes their key from link
+ALTER TABLE entries ADD COLUMN canonical_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_entries_canonical_url ON entries(canonical_url);
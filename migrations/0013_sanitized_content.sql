@@ -0,0 +1,4 @@
+-- Entry summaries and content are now stored as sanitized HTML with absolute URLs.
+-- Clearing the hash makes the next fetch rewrite entries still in their feed
+-- without recording an edit; older entries keep their raw HTML until pruned.
+UPDATE entries SET content_hash = NULL;
@@ -0,0 +1,11 @@
+-- Entry ids are scoped per feed: the upstream guid moves to its own column, unique
+-- per feed, and new rows get '{feed_id}:{guid}' as their id. Existing rows keep
+-- their id, which generated feeds already published as Atom <id> / RSS <guid>.
+ALTER TABLE entries ADD COLUMN guid TEXT;
+UPDATE entries SET guid = id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_feed_guid ON entries(feed_id, guid);
+
+-- Items without a guid now get a SHA-256 fallback id; the first fetch after this
+-- migration matches them to their stored rows by link, which counts once as churn
+ALTER TABLE feeds ADD COLUMN id_churn_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE feeds ADD COLUMN last_id_churn_at TEXT;
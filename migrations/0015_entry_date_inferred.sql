@@ -0,0 +1,10 @@
+-- Entries without a plausible publication date are dated when first seen and flagged
+ALTER TABLE entries ADD COLUMN date_inferred INTEGER NOT NULL DEFAULT 0;
+
+-- Apply the same correction to stored entries: missing, pre-1990 and future dates
+-- become the time the entry was first stored
+UPDATE entries
+SET published = strftime('%Y-%m-%dT%H:%M:%fZ', created_at), date_inferred = 1
+WHERE published IS NULL
+   OR published < '1990-01-01'
+   OR published > strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+15 minutes');
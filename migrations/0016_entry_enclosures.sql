@@ -0,0 +1,7 @@
+-- Podcast audio, video and image enclosures, and a preview image per entry
+ALTER TABLE entries ADD COLUMN enclosures TEXT;  -- JSON array of {url, type, length}
+ALTER TABLE entries ADD COLUMN thumbnail TEXT;
+
+-- The entry hash now covers both; clear it so the next fetch fills them in
+-- without recording every entry as edited
+UPDATE entries SET content_hash = NULL;
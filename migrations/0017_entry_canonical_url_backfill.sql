@@ -0,0 +1,11 @@
+-- Entries without a link of their own (the parser gave them their feed's URL) have
+-- no canonical URL, so they are never collapsed with other entries
+UPDATE entries SET canonical_url = NULL
+WHERE link IN (
+    SELECT url FROM feeds WHERE id = entries.feed_id
+    UNION SELECT url FROM feed_url_aliases WHERE feed_id = entries.feed_id
+);
+
+-- Entries stored before 0012 have none yet; clearing the hash makes the next fetch
+-- fill it in for entries still in their feed without recording an edit
+UPDATE entries SET content_hash = NULL WHERE canonical_url IS NULL;
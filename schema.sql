@@ -7,29 +7,48 @@ CREATE TABLE IF NOT EXISTS feeds (
     url TEXT UNIQUE NOT NULL,
     domain TEXT,
     rank INTEGER,  -- Position in top100 (1-100, NULL if not ranked)
+    disabled INTEGER NOT NULL DEFAULT 0,  -- 1 = not fetched by the cron
     etag TEXT,
     last_modified TEXT,
     last_fetched TEXT,
     fetch_count INTEGER DEFAULT 0,
     error_count INTEGER DEFAULT 0,
     last_error TEXT,
+    last_error_category TEXT,    -- dns, tls, timeout, http_4xx, http_5xx, rate_limited, parse, ...
+    next_fetch_at TEXT,          -- Adaptive schedule (NULL = due now)
+    quarantined_at TEXT,         -- Set after repeated failures (only probe fetches run)
+    post_interval_hours REAL,    -- Average hours between recent posts
+    not_modified_rate REAL NOT NULL DEFAULT 0,  -- Moving average of 304 responses
+    publisher_interval INTEGER,  -- <ttl> / sy:updatePeriod in seconds
+    last_success_at TEXT,        -- Last fetch that succeeded (200 or 304)
+    last_new_entry_at TEXT,      -- Last fetch that stored a new entry
+    moved_to TEXT,               -- Target of a permanent redirect of url, pending confirmation
+    moved_count INTEGER NOT NULL DEFAULT 0,  -- Consecutive fetches redirected to moved_to
+    id_churn_count INTEGER NOT NULL DEFAULT 0,  -- Entries whose upstream id changed while their link didn't
+    last_id_churn_at TEXT,
     created_at TEXT DEFAULT (datetime('now')),
     updated_at TEXT DEFAULT (datetime('now'))
 );
 
 -- Feed entries/articles
 CREATE TABLE IF NOT EXISTS entries (
-    id TEXT PRIMARY KEY,  -- GUID or generated hash
+    id TEXT PRIMARY KEY,  -- '{feed_id}:{guid}' (rows from before migration 0014: the bare guid)
+    guid TEXT,  -- Upstream guid/id, or 'sha256:' hash of link, title and date; unique per feed
     feed_id INTEGER NOT NULL,
     title TEXT NOT NULL,
     link TEXT NOT NULL,
     permalink TEXT,  -- Blog's own URL (for linkblogs like Daring Fireball)
-    published TEXT,
+    published TEXT,  -- Never in the future; the first-seen time when the item had no plausible date
+    date_inferred INTEGER NOT NULL DEFAULT 0,  -- 1 = published came from updated or the first-seen time
     updated TEXT,
     summary TEXT,
     content TEXT,
     author TEXT,
     tags TEXT,  -- JSON array
+    enclosures TEXT,  -- JSON array of {url, type, length}
+    thumbnail TEXT,
+    content_hash TEXT,  -- SHA-256 of title, link, summary, content, author, tags, enclosures and thumbnail
+    canonical_url TEXT,  -- Normalized link (no scheme, www, tracking params, AMP); shared by entries about the same article. NULL without a link of its own
     created_at TEXT DEFAULT (datetime('now')),
     FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
 );
@@ -38,8 +57,22 @@ CREATE TABLE IF NOT EXISTS entries (
 CREATE INDEX IF NOT EXISTS idx_entries_feed_id ON entries(feed_id);
 CREATE INDEX IF NOT EXISTS idx_entries_published ON entries(published DESC);
 CREATE INDEX IF NOT EXISTS idx_entries_created_at ON entries(created_at);
+CREATE INDEX IF NOT EXISTS idx_entries_canonical_url ON entries(canonical_url);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_feed_guid ON entries(feed_id, guid);
 CREATE INDEX IF NOT EXISTS idx_feeds_rank ON feeds(rank);
 CREATE INDEX IF NOT EXISTS idx_feeds_domain ON feeds(domain);
+CREATE INDEX IF NOT EXISTS idx_feeds_next_fetch_at ON feeds(next_fetch_at);
+
+-- Full-text search index over entries (kept in sync by the worker:
+-- rows are added in storeEntries and removed in pruneOldEntries)
+CREATE VIRTUAL TABLE IF NOT EXISTS entries_fts USING fts5(
+    entry_id UNINDEXED,  -- entries.id
+    title,
+    summary,             -- Plain text (HTML stripped)
+    content,             -- Plain text (HTML stripped)
+    tags,                -- Space-separated
+    tokenize = 'porter unicode61'
+);
 
 -- View for top 100 entries (most recent from ranked feeds)
 -- Note: e.* includes permalink column for linkblog support
@@ -66,6 +99,99 @@ JOIN feeds f ON e.feed_id = f.id
 WHERE f.rank IS NOT NULL AND f.rank <= 25
 ORDER BY e.published DESC;
 
+-- Rank change history (bulk imports via /api/ranks and admin edits)
+CREATE TABLE IF NOT EXISTS rank_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    old_rank INTEGER,
+    new_rank INTEGER,
+    source TEXT NOT NULL,       -- 'import' or 'admin'
+    changed_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_rank_history_feed_id ON rank_history(feed_id, changed_at);
+
+-- Fetches dead-lettered after exhausting queue retries
+CREATE TABLE IF NOT EXISTS failed_fetches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    feed_name TEXT NOT NULL,
+    feed_url TEXT NOT NULL,
+    message TEXT NOT NULL,          -- Original FeedFetchMessage as JSON
+    attempts INTEGER,               -- Deliveries before dead-lettering
+    last_error TEXT,
+    last_error_category TEXT,
+    first_queued_at TEXT,           -- When the message was first enqueued
+    dead_lettered_at TEXT NOT NULL,
+    replayed_at TEXT,
+    replay_count INTEGER DEFAULT 0,
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_fetches_feed_id ON failed_fetches(feed_id, dead_lettered_at);
+
+-- One row per fetch attempt, kept for FETCH_LOG_RETENTION_DAYS
+CREATE TABLE IF NOT EXISTS fetch_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    fetched_at TEXT NOT NULL,
+    status INTEGER,                 -- HTTP status; NULL when no response arrived
+    duration_ms INTEGER NOT NULL,
+    bytes INTEGER DEFAULT 0,
+    not_modified INTEGER DEFAULT 0, -- 1 for 304 responses
+    new_entries INTEGER DEFAULT 0,
+    error_category TEXT,            -- NULL on success
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_fetch_log_feed_id ON fetch_log(feed_id, fetched_at);
+CREATE INDEX IF NOT EXISTS idx_fetch_log_fetched_at ON fetch_log(fetched_at);
+
+-- Stale-feed alerts, deduplicated across cron runs
+CREATE TABLE IF NOT EXISTS feed_alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    kind TEXT NOT NULL,             -- no_new_entries, fetch_failing or moved
+    detail TEXT,
+    detected_at TEXT NOT NULL,
+    last_notified_at TEXT,          -- NULL until a webhook accepted the alert
+    resolved_at TEXT,               -- NULL while the condition lasts
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+-- At most one open alert per feed and kind
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feed_alerts_active ON feed_alerts(feed_id, kind) WHERE resolved_at IS NULL;
+
+-- Former URLs of feeds that permanently moved
+CREATE TABLE IF NOT EXISTS feed_url_aliases (
+    url TEXT PRIMARY KEY,           -- Former feed URL
+    feed_id INTEGER NOT NULL,
+    replaced_by TEXT NOT NULL,      -- URL it permanently redirected to
+    replaced_at TEXT NOT NULL,
+    FOREIGN KEY (feed_id) REFERENCES feeds(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_url_aliases_feed_id ON feed_url_aliases(feed_id);
+
+-- Previous versions of entries edited upstream
+CREATE TABLE IF NOT EXISTS entry_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    entry_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    link TEXT NOT NULL,
+    summary TEXT,
+    content TEXT,
+    author TEXT,
+    tags TEXT,
+    updated TEXT,
+    content_hash TEXT,
+    replaced_at TEXT NOT NULL,      -- When upstream replaced this version
+    FOREIGN KEY (entry_id) REFERENCES entries(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_revisions_entry_id ON entry_revisions(entry_id);
+
 -- Subscriber tracking (unique readers per feed)
 CREATE TABLE IF NOT EXISTS subscribers (
     id TEXT NOT NULL,           -- Hashed IP + User-Agent
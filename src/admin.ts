@@ -0,0 +1,264 @@
+// Admin API for managing feed sources (all routes require the admin token)
+import { Env, Feed } from './types';
+import { isValidFeedUrl, queueFeed } from './fetcher';
+import { extractDomain } from './domains';
+import { rankHistoryStatement } from './ranks';
+import { handleFeedHealth } from './health';
+
+const MAX_NAME_LENGTH = 200;
+const MAX_RANK = 100;
+
+// Columns returned by the admin API (cache headers are internal)
+const FEED_COLUMNS = `id, name, url, domain, rank, disabled, last_fetched, fetch_count,
+  error_count, last_error, last_success_at, last_new_entry_at, moved_to, moved_count, id_churn_count,
+  last_id_churn_at, created_at, updated_at`;
+
+export interface FeedInput {
+  name?: string;
+  url?: string;
+  rank?: number | null;
+  disabled?: boolean;
+}
+
+/**
+ * Route /api/feeds and /api/feeds/{id}:
+ * - GET    /api/feeds       list all sources
+ * - POST   /api/feeds       create a source and enqueue its first fetch
+ * - GET    /api/feeds/{id}  show one source
+ * - PATCH  /api/feeds/{id}  edit name, url, rank or disabled
+ * - DELETE /api/feeds/{id}  remove a source and its entries
+ * - GET    /api/feeds/{id}/health  uptime, latency and staleness of a source
+ */
+export async function handleFeedsApi(request: Request, env: Env, path: string): Promise<Response> {
+  if (path === '/api/feeds') {
+    if (request.method === 'GET') return listFeeds(env);
+    if (request.method === 'POST') return createFeed(request, env);
+    return methodNotAllowed('GET, POST');
+  }
+
+  const healthMatch = path.match(/^\/api\/feeds\/(\d+)\/health$/);
+  if (healthMatch) {
+    if (request.method === 'GET') return handleFeedHealth(request, env, parseInt(healthMatch[1]));
+    return methodNotAllowed('GET');
+  }
+
+  const match = path.match(/^\/api\/feeds\/(\d+)$/);
+  if (!match) {
+    return Response.json({ error: 'Not Found' }, { status: 404 });
+  }
+
+  const feedId = parseInt(match[1]);
+  if (request.method === 'GET') return getFeed(env, feedId);
+  if (request.method === 'PATCH') return updateFeed(request, env, feedId);
+  if (request.method === 'DELETE') return deleteFeed(env, feedId);
+  return methodNotAllowed('GET, PATCH, DELETE');
+}
+
+async function listFeeds(env: Env): Promise<Response> {
+  const feeds = await env.DB.prepare(`
+    SELECT ${FEED_COLUMNS}
+    FROM feeds
+    ORDER BY rank ASC NULLS LAST, id ASC
+  `).all<Feed>();
+
+  return Response.json({ feeds: feeds.results || [] });
+}
+
+async function getFeed(env: Env, feedId: number): Promise<Response> {
+  const feed = await env.DB.prepare(`SELECT ${FEED_COLUMNS} FROM feeds WHERE id = ?`)
+    .bind(feedId).first<Feed>();
+  if (!feed) {
+    return Response.json({ error: 'Feed not found' }, { status: 404 });
+  }
+  return Response.json({ feed });
+}
+
+async function createFeed(request: Request, env: Env): Promise<Response> {
+  const { input, error } = await readFeedInput(request);
+  if (!input) {
+    return Response.json({ error }, { status: 400 });
+  }
+  if (!input.name || !input.url) {
+    return Response.json({ error: 'name and url are required' }, { status: 400 });
+  }
+
+  const domain = extractDomain(input.url);
+  const duplicate = await findDuplicateFeed(env.DB, input.url, domain);
+  if (duplicate) {
+    return Response.json({ error: 'A feed with this URL or domain already exists', feed: duplicate }, { status: 409 });
+  }
+
+  const feed = await insertFeed(env, { ...input, name: input.name, url: input.url });
+  if (!feed) {
+    return Response.json({ error: 'Failed to create feed' }, { status: 500 });
+  }
+
+  return Response.json({ feed, queued: !feed.disabled }, { status: 201 });
+}
+
+/**
+ * Insert a validated source and queue its first fetch unless it is disabled.
+ * Callers are responsible for URL validation and duplicate checks.
+ */
+async function insertFeed(
+  env: Env,
+  input: FeedInput & { name: string; url: string }
+): Promise<Feed | null> {
+  const feed = await env.DB.prepare(`
+    INSERT INTO feeds (name, url, domain, rank, disabled)
+    VALUES (?, ?, ?, ?, ?)
+    RETURNING ${FEED_COLUMNS}
+  `).bind(input.name, input.url, extractDomain(input.url), input.rank ?? null, input.disabled ? 1 : 0).first<Feed>();
+
+  // Fetch right away instead of waiting for the next cron tick
+  if (feed && !feed.disabled) {
+    await queueFeed(env, feed);
+  }
+
+  return feed;
+}
+
+async function updateFeed(request: Request, env: Env, feedId: number): Promise<Response> {
+  const existing = await env.DB.prepare('SELECT id, url, rank FROM feeds WHERE id = ?')
+    .bind(feedId).first<Pick<Feed, 'id' | 'url' | 'rank'>>();
+  if (!existing) {
+    return Response.json({ error: 'Feed not found' }, { status: 404 });
+  }
+
+  const { input, error } = await readFeedInput(request);
+  if (!input) {
+    return Response.json({ error }, { status: 400 });
+  }
+
+  const assignments: string[] = [];
+  const params: (string | number | null)[] = [];
+
+  if (input.name !== undefined) {
+    assignments.push('name = ?');
+    params.push(input.name);
+  }
+  if (input.url !== undefined && input.url !== existing.url) {
+    const domain = extractDomain(input.url);
+    const duplicate = await findDuplicateFeed(env.DB, input.url, domain, feedId);
+    if (duplicate) {
+      return Response.json({ error: 'A feed with this URL or domain already exists', feed: duplicate }, { status: 409 });
+    }
+    // Cache validators belong to the old URL
+    assignments.push('url = ?', 'domain = ?', 'etag = NULL', 'last_modified = NULL');
+    params.push(input.url, domain);
+  }
+  if (input.rank !== undefined) {
+    assignments.push('rank = ?');
+    params.push(input.rank);
+  }
+  if (input.disabled !== undefined) {
+    assignments.push('disabled = ?');
+    params.push(input.disabled ? 1 : 0);
+  }
+
+  if (assignments.length === 0) {
+    return getFeed(env, feedId);
+  }
+
+  const statements = [
+    env.DB.prepare(`
+      UPDATE feeds SET ${assignments.join(', ')}, updated_at = ?
+      WHERE id = ?
+      RETURNING ${FEED_COLUMNS}
+    `).bind(...params, new Date().toISOString(), feedId),
+  ];
+  if (input.rank !== undefined && input.rank !== existing.rank) {
+    statements.push(rankHistoryStatement(env.DB, feedId, existing.rank, input.rank, 'admin'));
+  }
+
+  // One transaction, so the rank and its history entry change together
+  const [updated] = await env.DB.batch<Feed>(statements);
+  const feed = updated.results?.[0] ?? null;
+
+  return Response.json({ feed });
+}
+
+async function deleteFeed(env: Env, feedId: number): Promise<Response> {
+  const existing = await env.DB.prepare('SELECT id FROM feeds WHERE id = ?')
+    .bind(feedId).first<{id: number}>();
+  if (!existing) {
+    return Response.json({ error: 'Feed not found' }, { status: 404 });
+  }
+
+  // Remove search index rows and entries explicitly rather than relying on cascade
+  const results = await env.DB.batch([
+    env.DB.prepare('DELETE FROM entries_fts WHERE entry_id IN (SELECT id FROM entries WHERE feed_id = ?)').bind(feedId),
+    env.DB.prepare('DELETE FROM entries WHERE feed_id = ?').bind(feedId),
+    env.DB.prepare('DELETE FROM feeds WHERE id = ?').bind(feedId),
+  ]);
+
+  return Response.json({ deleted: true, entriesDeleted: results[1].meta.changes || 0 });
+}
+
+/**
+ * Find an existing feed with the same URL or normalized domain.
+ */
+export async function findDuplicateFeed(
+  db: D1Database,
+  url: string,
+  domain: string | null,
+  excludeId?: number
+): Promise<Pick<Feed, 'id' | 'name' | 'url' | 'domain'> | null> {
+  return db.prepare(`
+    SELECT id, name, url, domain FROM feeds
+    WHERE (url = ? OR (? IS NOT NULL AND domain = ?)
+           OR id IN (SELECT feed_id FROM feed_url_aliases WHERE url = ?))
+      AND id != ?
+    ORDER BY url = ? DESC, id ASC
+    LIMIT 1
+  `).bind(url, domain, domain, url, excludeId ?? -1, url).first<Pick<Feed, 'id' | 'name' | 'url' | 'domain'>>();
+}
+
+// Parse and validate a JSON request body; fields that are absent stay undefined
+async function readFeedInput(request: Request): Promise<{ input?: FeedInput; error?: string }> {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return { error: 'Request body must be JSON' };
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const input: FeedInput = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > MAX_NAME_LENGTH) {
+      return { error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` };
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.url !== undefined) {
+    if (typeof body.url !== 'string' || !isValidFeedUrl(body.url.trim())) {
+      return { error: 'url must be a public http(s) URL' };
+    }
+    input.url = body.url.trim();
+  }
+
+  if (body.rank !== undefined) {
+    if (body.rank !== null && (!Number.isInteger(body.rank) || body.rank < 1 || body.rank > MAX_RANK)) {
+      return { error: `rank must be an integer within 1-${MAX_RANK} or null` };
+    }
+    input.rank = body.rank;
+  }
+
+  if (body.disabled !== undefined) {
+    if (typeof body.disabled !== 'boolean') {
+      return { error: 'disabled must be a boolean' };
+    }
+    input.disabled = body.disabled;
+  }
+
+  return { input };
+}
+
+function methodNotAllowed(allow: string): Response {
+  return Response.json({ error: 'Method Not Allowed' }, { status: 405, headers: { 'Allow': allow } });
+}
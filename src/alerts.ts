@@ -0,0 +1,260 @@
+// Stale-feed detection and outbound webhook notifications
+import { Env, Feed } from './types';
+import { isValidFeedUrl } from './fetcher';
+import { assertPublicUrl } from './ssrf';
+import { redirectConfirmations } from './redirects';
+
+const DEFAULT_STALE_ENTRY_DAYS = 30;
+const DEFAULT_STALE_FETCH_HOURS = 48;
+const DEFAULT_ALERT_REPEAT_HOURS = 24;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Keep chat messages readable when many sources go stale at once
+const MAX_LINES_PER_MESSAGE = 25;
+
+export type AlertKind = 'no_new_entries' | 'fetch_failing' | 'moved';
+
+export interface FeedAlert {
+  feedId: number;
+  feedName: string;
+  feedUrl: string;
+  kind: AlertKind;
+  detail: string;
+  since: string | null;  // When the condition started (last entry, last success)
+  movedTo?: string;
+}
+
+interface AlertRow {
+  feed_id: number;
+  kind: AlertKind;
+  last_notified_at: string | null;
+}
+
+type AlertFeed = Pick<Feed, 'id' | 'name' | 'url' | 'moved_to' | 'moved_count' | 'last_success_at' | 'last_new_entry_at' | 'created_at'>;
+
+/**
+ * Detect stale sources and notify WEBHOOK_URLS (called by cron).
+ * An alert is sent when a condition first appears, repeated every ALERT_REPEAT_HOURS
+ * while it lasts, and followed by a recovery notice once it clears.
+ */
+export async function checkFeedAlerts(env: Env): Promise<{ sent: number; resolved: number }> {
+  const detected = await detectAlerts(env);
+  const active = await env.DB.prepare(`
+    SELECT feed_id, kind, last_notified_at FROM feed_alerts WHERE resolved_at IS NULL
+  `).all<AlertRow>();
+
+  const now = new Date();
+  const repeatMs = (parseInt(env.ALERT_REPEAT_HOURS || '') || DEFAULT_ALERT_REPEAT_HOURS) * 3600000;
+  const activeByKey = new Map((active.results || []).map(row => [alertKey(row.feed_id, row.kind), row]));
+  const detectedKeys = new Set(detected.map(alert => alertKey(alert.feedId, alert.kind)));
+
+  // New alerts, plus reminders for ones that have been quiet long enough
+  const due = detected.filter(alert => {
+    const row = activeByKey.get(alertKey(alert.feedId, alert.kind));
+    return !row?.last_notified_at || now.getTime() - new Date(row.last_notified_at).getTime() >= repeatMs;
+  });
+  const cleared = (active.results || []).filter(row => !detectedKeys.has(alertKey(row.feed_id, row.kind)));
+  // Alerts that were announced stay open until their recovery notice is delivered;
+  // ones no webhook ever accepted are closed silently
+  const resolved = cleared.filter(row => row.last_notified_at);
+  const unannounced = cleared.filter(row => !row.last_notified_at);
+
+  const statements: D1PreparedStatement[] = [];
+  for (const alert of detected) {
+    if (!activeByKey.has(alertKey(alert.feedId, alert.kind))) {
+      statements.push(env.DB.prepare(`
+        INSERT INTO feed_alerts (feed_id, kind, detail, detected_at)
+        VALUES (?, ?, ?, ?)
+      `).bind(alert.feedId, alert.kind, alert.detail, now.toISOString()));
+    }
+  }
+  statements.push(...unannounced.map(row => resolveAlert(env, row, now)));
+  if (statements.length > 0) {
+    await env.DB.batch(statements);
+  }
+
+  if (due.length === 0 && resolved.length === 0) {
+    return { sent: 0, resolved: 0 };
+  }
+
+  // Only mark alerts as notified (or resolved) once a webhook accepted them, so
+  // failures retry next cron
+  const delivered = await sendWebhooks(env, buildPayload(due, resolved.length));
+  if (delivered) {
+    await env.DB.batch([
+      ...due.map(alert =>
+        env.DB.prepare(`
+          UPDATE feed_alerts SET last_notified_at = ?, detail = ?
+          WHERE feed_id = ? AND kind = ? AND resolved_at IS NULL
+        `).bind(now.toISOString(), alert.detail, alert.feedId, alert.kind)
+      ),
+      ...resolved.map(row => resolveAlert(env, row, now)),
+    ]);
+  }
+
+  return { sent: delivered ? due.length : 0, resolved: delivered ? resolved.length : 0 };
+}
+
+function resolveAlert(env: Env, row: AlertRow, now: Date): D1PreparedStatement {
+  return env.DB.prepare(`
+    UPDATE feed_alerts SET resolved_at = ? WHERE feed_id = ? AND kind = ? AND resolved_at IS NULL
+  `).bind(now.toISOString(), row.feed_id, row.kind);
+}
+
+async function detectAlerts(env: Env): Promise<FeedAlert[]> {
+  const entryDays = parseInt(env.STALE_ENTRY_DAYS || '') || DEFAULT_STALE_ENTRY_DAYS;
+  const fetchHours = parseInt(env.STALE_FETCH_HOURS || '') || DEFAULT_STALE_FETCH_HOURS;
+  const confirmations = redirectConfirmations(env);
+
+  const feeds = await env.DB.prepare(`
+    SELECT id, name, url, moved_to, moved_count, last_success_at, last_new_entry_at, created_at
+    FROM feeds
+    WHERE url IS NOT NULL AND disabled = 0
+  `).all<AlertFeed>();
+
+  const now = Date.now();
+  const alerts: FeedAlert[] = [];
+
+  for (const feed of feeds.results || []) {
+    // Sources added recently haven't had the chance to go stale
+    const lastEntry = feed.last_new_entry_at || feed.created_at;
+    const lastSuccess = feed.last_success_at || feed.created_at;
+    const base = { feedId: feed.id, feedName: feed.name, feedUrl: feed.url };
+
+    const entryAgeDays = (now - parseTimestamp(lastEntry)) / 86400000;
+    if (entryAgeDays > entryDays) {
+      alerts.push({
+        ...base,
+        kind: 'no_new_entries',
+        detail: `No new entries for ${Math.floor(entryAgeDays)} days`,
+        since: feed.last_new_entry_at,
+      });
+    }
+
+    const fetchAgeHours = (now - parseTimestamp(lastSuccess)) / 3600000;
+    if (fetchAgeHours > fetchHours) {
+      alerts.push({
+        ...base,
+        kind: 'fetch_failing',
+        detail: `No successful fetch for ${Math.floor(fetchAgeHours)} hours`,
+        since: feed.last_success_at,
+      });
+    }
+
+    // Confirmed moves are applied automatically; a confirmed one still pending was blocked
+    if (feed.moved_to && feed.moved_count >= confirmations) {
+      alerts.push({
+        ...base,
+        kind: 'moved',
+        detail: `Permanently redirects to ${feed.moved_to}, which is already registered as another feed`,
+        since: null,
+        movedTo: feed.moved_to,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+// SQLite datetime('now') defaults have no zone; they are UTC
+function parseTimestamp(value: string): number {
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`).getTime();
+}
+
+function alertKey(feedId: number, kind: AlertKind): string {
+  return `${feedId}:${kind}`;
+}
+
+const KIND_LABELS: Record<AlertKind, string> = {
+  no_new_entries: 'Stale',
+  fetch_failing: 'Failing',
+  moved: 'Moved',
+};
+
+/**
+ * Payload readable by Slack (`text`) and Discord (`content`) incoming webhooks,
+ * with structured fields for other consumers.
+ */
+function buildPayload(alerts: FeedAlert[], resolvedCount: number): Record<string, unknown> {
+  const lines = alerts
+    .slice(0, MAX_LINES_PER_MESSAGE)
+    .map(alert => `• [${KIND_LABELS[alert.kind]}] ${alert.feedName} (${alert.feedUrl}): ${alert.detail}`);
+  if (alerts.length > MAX_LINES_PER_MESSAGE) {
+    lines.push(`…and ${alerts.length - MAX_LINES_PER_MESSAGE} more`);
+  }
+
+  const summary = alerts.length > 0
+    ? `${alerts.length} feed alert${alerts.length === 1 ? '' : 's'}`
+    : 'No new feed alerts';
+  const recovered = resolvedCount > 0 ? ` (${resolvedCount} recovered)` : '';
+  const text = [`${summary}${recovered}`, ...lines].join('\n');
+
+  return {
+    text,
+    content: text.substring(0, 2000),  // Discord's message limit
+    event: 'feed_alerts',
+    alerts,
+    resolvedCount,
+    sentAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * POST the payload to every configured webhook. With WEBHOOK_SECRET set, requests carry
+ * X-Webhook-Timestamp and X-Webhook-Signature (`sha256=` + hex HMAC of `{timestamp}.{body}`).
+ * Returns true if at least one endpoint accepted it.
+ */
+async function sendWebhooks(env: Env, payload: Record<string, unknown>): Promise<boolean> {
+  const urls = (env.WEBHOOK_URLS || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(url => url && isValidFeedUrl(url));
+  if (urls.length === 0) {
+    return false;
+  }
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Webhook-Timestamp': timestamp,
+  };
+  if (env.WEBHOOK_SECRET) {
+    headers['X-Webhook-Signature'] = `sha256=${await hmacHex(env.WEBHOOK_SECRET, `${timestamp}.${body}`)}`;
+  }
+
+  const results = await Promise.all(urls.map(async url => {
+    try {
+      await assertPublicUrl(env, url);
+      // Redirects would bypass the SSRF check, and webhook endpoints don't need them
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        console.error(`Webhook ${new URL(url).host} returned HTTP ${response.status}`);
+      }
+      return response.ok;
+    } catch (error) {
+      console.error(`Webhook ${new URL(url).host} failed:`, error);
+      return false;
+    }
+  }));
+
+  return results.some(ok => ok);
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,169 @@
+// Bounded reading, decompression and charset decoding of upstream feed bodies
+import { Env } from './types';
+import { FeedFetchError } from './errors';
+
+const DEFAULT_MAX_FEED_BYTES = 10 * 1024 * 1024;
+
+// Content types that can't be a feed, rejected before reading the body
+const NON_FEED_TYPE_PREFIXES = ['image/', 'audio/', 'video/', 'font/', 'application/pdf', 'application/zip'];
+
+// Bytes 0x80-0x9f of windows-1252 (WHATWG also uses it for ISO-8859-1 labels)
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+const LATIN1_LABELS = ['iso-8859-1', 'iso8859-1', 'latin1', 'l1', 'us-ascii', 'ascii', 'windows-1252', 'cp1252', 'x-cp1252'];
+
+export function maxFeedBytes(env: Env): number {
+  return parseInt(env.MAX_FEED_BYTES || '') || DEFAULT_MAX_FEED_BYTES;
+}
+
+/**
+ * Read a feed response as text: reject non-feed content types, stream at most
+ * `maxBytes` (compressed and decompressed), inflate gzip/deflate bodies the runtime
+ * didn't, decode the declared charset and refuse HTML pages.
+ * `bytes` is the size received over the wire.
+ */
+export async function readFeedBody(response: Response, maxBytes: number): Promise<{ text: string; bytes: number }> {
+  const contentType = (response.headers.get('Content-Type') || '').toLowerCase();
+  const mediaType = contentType.split(';')[0].trim();
+  if (NON_FEED_TYPE_PREFIXES.some(prefix => mediaType.startsWith(prefix))) {
+    await response.body?.cancel();
+    throw new FeedFetchError('not_feed', `Unexpected content type ${mediaType}`);
+  }
+
+  const raw = await readBodyBytes(response, maxBytes);
+  const body = await decompress(raw, maxBytes);
+  const text = decodeBody(body, contentType);
+
+  if (looksLikeHtml(text, mediaType)) {
+    throw new FeedFetchError('not_feed', 'Received an HTML page instead of a feed');
+  }
+
+  return { text, bytes: raw.byteLength };
+}
+
+/**
+ * Stream a response body into memory, throwing 'too_large' past `maxBytes`
+ * (or returning the first `maxBytes` when `truncate` is set).
+ */
+export async function readBodyBytes(response: Response, maxBytes: number, truncate = false): Promise<Uint8Array> {
+  const declared = parseInt(response.headers.get('Content-Length') || '');
+  if (!truncate && declared > maxBytes) {
+    await response.body?.cancel();
+    throw new FeedFetchError('too_large', `Response is ${declared} bytes (limit ${maxBytes})`);
+  }
+  if (!response.body) {
+    return new Uint8Array(0);
+  }
+  return readStream(response.body, maxBytes, truncate);
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>, maxBytes: number, truncate: boolean): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (total + value.byteLength > maxBytes) {
+      await reader.cancel();
+      if (!truncate) {
+        throw new FeedFetchError('too_large', `Response exceeds ${maxBytes} bytes`);
+      }
+      chunks.push(value.subarray(0, maxBytes - total));
+      total = maxBytes;
+      break;
+    }
+    chunks.push(value);
+    total += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+// Workers inflates Content-Encoding itself; this catches bodies served as
+// application/gzip or with a missing header. The cap also bounds decompression bombs.
+async function decompress(bytes: Uint8Array, maxBytes: number): Promise<Uint8Array> {
+  let format: 'gzip' | 'deflate' | null = null;
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    format = 'gzip';
+  } else if (bytes[0] === 0x78 && ((bytes[0] << 8) | bytes[1]) % 31 === 0) {
+    format = 'deflate';  // zlib header
+  }
+  if (!format) return bytes;
+
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+    return await readStream(stream, maxBytes, false);
+  } catch (error) {
+    if (error instanceof FeedFetchError) throw error;
+    throw new FeedFetchError('parse', `Invalid ${format} body`);
+  }
+}
+
+/**
+ * Decode bytes using, in order: a byte order mark, the XML declaration's encoding,
+ * the Content-Type charset, then UTF-8. The declaration wins over the header since
+ * publishers write it, while servers often add a default charset to every text/* type.
+ */
+export function decodeBody(bytes: Uint8Array, contentType: string): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return decode(bytes.subarray(3), 'utf-8');
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return decode(bytes.subarray(2), 'utf-16le');
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return decode(bytes.subarray(2), 'utf-16be');
+
+  // The declaration is ASCII, so reading it byte-wise is safe for any ASCII-compatible charset
+  const head = String.fromCharCode(...bytes.subarray(0, 200));
+  const declared = head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([A-Za-z0-9._-]+)["']/);
+  const headerCharset = contentType.match(/charset\s*=\s*"?([A-Za-z0-9._-]+)"?/i);
+
+  const charset = declared?.[1] || headerCharset?.[1] || 'utf-8';
+  return decode(bytes, charset);
+}
+
+function decode(bytes: Uint8Array, charset: string): string {
+  const label = charset.toLowerCase();
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    // Runtimes without the full Encoding Standard still get the common Western charsets right
+    if (LATIN1_LABELS.includes(label)) {
+      return decodeWindows1252(bytes);
+    }
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeWindows1252(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    const codes = Array.from(bytes.subarray(i, i + 8192), byte =>
+      byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : byte
+    );
+    text += String.fromCharCode(...codes);
+  }
+  return text;
+}
+
+// HTML documents (error pages, login walls, parked domains) rather than RSS/Atom/RDF/JSON
+function looksLikeHtml(text: string, mediaType: string): boolean {
+  const head = text
+    .substring(0, 4096)
+    .replace(/^\s*(<\?xml[^>]*\?>\s*)?/, '')
+    .replace(/^(<!--[\s\S]*?-->\s*)*/, '')
+    .toLowerCase();
+
+  if (/^<(!doctype html|html|head|body)[\s>]/.test(head)) {
+    return true;
+  }
+  // Some servers label real feeds text/html, so only reject when no feed root appears
+  return mediaType === 'text/html' && !/<([\w.-]+:)?(rss|feed|rdf)[\s>]/.test(head) && !head.startsWith('{');
+}
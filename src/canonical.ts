@@ -0,0 +1,84 @@
+// Canonical URL normalization for matching entries that point to the same article
+
+// Query parameters that only track the referrer or campaign
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid',
+  'ref_src', 'ref_url', 'at_medium', 'at_campaign',
+]);
+const TRACKING_PREFIXES = ['utm_', '_hs', 'hsa_'];
+
+// Query parameters that request an AMP rendering of the same page
+const AMP_PARAMS = new Set(['amp', 'outputtype']);
+
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.has(key) || TRACKING_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+/**
+ * Remove tracking parameters (utm_*, fbclid, ...) from a URL, leaving everything
+ * else untouched. Returns the input unchanged when it isn't an absolute URL.
+ */
+export function stripTrackingParams(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const names = [...parsed.searchParams.keys()];
+  if (!names.some(isTrackingParam)) {
+    return url;
+  }
+  for (const name of names) {
+    if (isTrackingParam(name)) parsed.searchParams.delete(name);
+  }
+  return parsed.toString();
+}
+
+/**
+ * Key identifying the article a URL points to, used to cluster entries across feeds.
+ * Ignores scheme, `www.`, default ports, fragments, tracking parameters, parameter
+ * order, trailing slashes, `index.html` and AMP variants (`/amp`, `?amp=1`,
+ * `amp.` hosts and Google AMP cache URLs). Returns null for non-http(s) URLs.
+ */
+export function canonicalUrlKey(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    return null;
+  }
+
+  let host = parsed.hostname.toLowerCase();
+  let path = parsed.pathname;
+
+  // Google AMP cache: https://example-com.cdn.ampproject.org/c/s/example.com/post
+  const ampCache = host.endsWith('.cdn.ampproject.org') && path.match(/^\/[a-z](?:\/s)?\/([^/]+)(\/.*)?$/);
+  if (ampCache) {
+    host = ampCache[1].toLowerCase();
+    path = ampCache[2] || '/';
+  }
+
+  host = host.replace(/^(www|amp|m)\./, '');
+
+  path = path
+    .replace(/\/amp\/?$/i, '/')
+    .replace(/\.amp(\.html?)?$/i, '')
+    .replace(/\/index\.(html?|php)$/i, '/')
+    .replace(/\/{2,}/g, '/');
+  if (path.length > 1) {
+    path = path.replace(/\/+$/, '');
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name) && !AMP_PARAMS.has(name.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${path === '/' ? '' : path}${query}`;
+}
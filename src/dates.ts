@@ -0,0 +1,212 @@
+// Lenient parsing of feed dates and correction of implausible ones
+
+// Dates before this are placeholders (Unix epoch, 0001-01-01) rather than real posts
+const MIN_PLAUSIBLE_DATE = Date.UTC(1990, 0, 1);
+// Allowance for publisher clock skew before a date counts as being in the future
+const FUTURE_TOLERANCE_MS = 15 * 60 * 1000;
+
+// Month names and abbreviations (English, German, French, Spanish, Italian,
+// Portuguese, Dutch and Scandinavian), without diacritics
+const MONTH_NAMES: string[][] = [
+  ['january', 'januar', 'janvier', 'enero', 'gennaio', 'janeiro', 'januari'],
+  ['february', 'februar', 'fevrier', 'febrero', 'febbraio', 'fevereiro', 'februari'],
+  ['march', 'marz', 'mars', 'marzo', 'marco', 'maart', 'mrt'],
+  ['april', 'avril', 'abril', 'aprile'],
+  ['may', 'mai', 'mayo', 'maggio', 'maio', 'mei', 'maj'],
+  ['june', 'juni', 'juin', 'junio', 'giugno', 'junho'],
+  ['july', 'juli', 'juillet', 'julio', 'luglio', 'julho'],
+  ['august', 'aout', 'agosto', 'augustus', 'augusti'],
+  ['september', 'septembre', 'septiembre', 'settembre', 'setembro'],
+  ['october', 'oktober', 'octobre', 'octubre', 'ottobre', 'outubro'],
+  ['november', 'novembre', 'noviembre', 'novembro'],
+  ['december', 'dezember', 'decembre', 'diciembre', 'dicembre', 'dezembro', 'desember'],
+];
+
+// Zone abbreviations seen in RSS pubDates, as minutes east of UTC
+const ZONE_OFFSETS: Record<string, number> = {
+  z: 0, ut: 0, utc: 0, gmt: 0, wet: 0,
+  est: -300, edt: -240, cst: -360, cdt: -300, mst: -420, mdt: -360, pst: -480, pdt: -420,
+  akst: -540, akdt: -480, hst: -600, ast: -240, adt: -180, nst: -210, ndt: -150,
+  bst: 60, ist: 330, cet: 60, cest: 120, met: 60, mest: 120, west: 60, eet: 120, eest: 180, msk: 180,
+  jst: 540, kst: 540, hkt: 480, sgt: 480, awst: 480, acst: 570, acdt: 630, aest: 600, aedt: 660,
+  nzst: 720, nzdt: 780,
+};
+
+// Every name and each unambiguous prefix of at least three letters
+const MONTH_LOOKUP = buildMonthLookup();
+
+const ISO_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,]\d+)?)?)?\s*(z|utc|gmt|[+-]\d{2}(?::?\d{2})?)?$/i;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,]\d+)?)?(am|pm)?(z|[+-]\d{2}:?\d{2})?$/i;
+const OFFSET_PATTERN = /^(?:gmt|utc|ut)?([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+function buildMonthLookup(): Map<string, number> {
+  const lookup = new Map<string, number>();
+  const ambiguous = new Set<string>();
+  MONTH_NAMES.forEach((names, month) => {
+    for (const name of names) {
+      for (let length = 3; length <= name.length; length++) {
+        const prefix = name.substring(0, length);
+        if (lookup.has(prefix) && lookup.get(prefix) !== month) ambiguous.add(prefix);
+        lookup.set(prefix, month);
+      }
+    }
+  });
+  // e.g. French "jui" could be juin or juillet
+  for (const prefix of ambiguous) lookup.delete(prefix);
+  return lookup;
+}
+
+/**
+ * Parse a feed date: ISO 8601 / RFC 3339 (with or without time and zone), and
+ * RFC 822 variants with any weekday, English or common European month names,
+ * two-digit years, missing seconds, and zone abbreviations like EDT or CEST.
+ * Dates without a zone are taken as UTC. Returns null when nothing parses.
+ */
+export function parseDate(value: string): Date | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const iso = text.match(ISO_PATTERN);
+  if (iso) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0', zone] = iso;
+    const offset = zone ? parseZone(zone) : 0;
+    return offset === null ? null : buildDate(+year, +month - 1, +day, +hours, +minutes, +seconds, offset);
+  }
+
+  const parsed = parseTextDate(text);
+  if (parsed) return parsed;
+
+  // Last resort for anything else the runtime understands
+  const fallback = new Date(text);
+  return isNaN(fallback.getTime()) ? null : fallback;
+}
+
+// "Tue, 3 Sep 2024 10:00 EDT", "3. September 2024 10:00:00 +0200", "1 de enero de 2024"
+function parseTextDate(text: string): Date | null {
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+  let hours = 0;
+  let minutes = 0;
+  let seconds = 0;
+  let offset: number | null = null;
+  let meridiem: string | undefined;
+
+  const tokens = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/\s+/);
+  for (const raw of tokens) {
+    // A leading word followed by a comma is the weekday, which may look like a month ("mar.," in French)
+    if (/^[a-z]+\.?,$/.test(raw)) continue;
+    const token = raw.replace(/,$/, '').replace(/\.$/, '');
+    if (!token) continue;
+
+    const time = token.match(TIME_PATTERN);
+    if (time) {
+      [hours, minutes, seconds] = [+time[1], +time[2], +(time[3] || 0)];
+      meridiem = time[4];
+      if (time[5]) offset = parseZone(time[5]);
+      continue;
+    }
+    if (token === 'am' || token === 'pm') {
+      meridiem = token;
+      continue;
+    }
+
+    const number = token.match(/^(\d{1,4})(st|nd|rd|th)?$/);
+    if (number) {
+      const digits = number[1];
+      if (digits.length === 4) year = +digits;
+      else if (day === undefined && digits.length <= 2) day = +digits;
+      else if (year === undefined && digits.length === 2) year = +digits < 50 ? 2000 + +digits : 1900 + +digits;
+      continue;
+    }
+
+    const zone = parseZone(token);
+    if (zone !== null && (offset === null || /^[+-]/.test(token))) {
+      offset = zone;
+      continue;
+    }
+
+    // A later month name wins over an earlier match, which was likely the weekday
+    if (/^[a-z]+$/.test(token)) {
+      const found = MONTH_LOOKUP.get(token);
+      if (found !== undefined) month = found;
+    }
+    // Anything else is a weekday or filler word ("de", "um")
+  }
+
+  if (year === undefined || month === undefined || day === undefined) return null;
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  return buildDate(year, month, day, hours, minutes, seconds, offset ?? 0);
+}
+
+// Minutes east of UTC for "Z", "EDT", "+0200", "-05:00", "GMT+2"; null if not a zone
+function parseZone(token: string): number | null {
+  const lower = token.toLowerCase();
+  if (lower in ZONE_OFFSETS) return ZONE_OFFSETS[lower];
+  const numeric = lower.match(OFFSET_PATTERN);
+  if (!numeric) return null;
+
+  // "+0200" packs hours and minutes into one number
+  let [hours, minutes] = [+numeric[2], +(numeric[3] || 0)];
+  if (!numeric[3] && numeric[2].length > 2) {
+    [hours, minutes] = [Math.floor(hours / 100), hours % 100];
+  }
+  if (hours > 14 || minutes > 59) return null;
+  return (numeric[1] === '-' ? -1 : 1) * (hours * 60 + minutes);
+}
+
+function buildDate(
+  year: number, month: number, day: number,
+  hours: number, minutes: number, seconds: number,
+  offsetMinutes: number
+): Date | null {
+  if (month < 0 || month > 11 || day < 1 || hours > 23 || minutes > 59 || seconds > 60) return null;
+  const local = Date.UTC(year, month, day, hours, minutes, Math.min(seconds, 59));
+  // Date.UTC rolls "31 Feb" over into March
+  if (new Date(local).getUTCDate() !== day) return null;
+  return new Date(local - offsetMinutes * 60 * 1000);
+}
+
+export interface EntryDates {
+  published?: string;  // ISO 8601; unset when the entry should be dated when first seen
+  updated?: string;
+  inferred: boolean;   // published didn't come from a publication date field
+}
+
+/**
+ * Choose an entry's dates from its candidate fields, in order of preference.
+ * Unparseable, pre-1990 and future dates are skipped, so an item dated 2099 or
+ * 1970 doesn't pin itself to the top or bottom of the feed. Without a plausible
+ * publication date, the first plausible `updated` date is used, else none (the
+ * entry is dated when first stored); both cases are flagged as inferred.
+ */
+export function resolveEntryDates(
+  publishedCandidates: unknown[],
+  updatedCandidates: unknown[],
+  now = Date.now()
+): EntryDates {
+  const published = firstPlausible(publishedCandidates, now);
+  const updated = firstPlausible(updatedCandidates, now);
+
+  if (published) {
+    return { published, updated, inferred: false };
+  }
+  return { published: updated, updated, inferred: true };
+}
+
+function firstPlausible(candidates: unknown[], now: number): string | undefined {
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string') continue;
+    const date = parseDate(candidate);
+    if (date && isPlausibleDate(date, now)) {
+      return date.toISOString();
+    }
+  }
+  return undefined;
+}
+
+export function isPlausibleDate(date: Date, now = Date.now()): boolean {
+  const time = date.getTime();
+  return time >= MIN_PLAUSIBLE_DATE && time <= now + FUTURE_TOLERANCE_MS;
+}
@@ -0,0 +1,227 @@
+// Dead-letter queue consumer and failed-fetch inspection API
+import { Env, FeedFetchMessage, DeadLetterMessage, FetchResult, Feed } from './types';
+import { sendFeedBatches } from './fetcher';
+
+// Must match the dead_letter_queue name in wrangler.toml
+export const DEAD_LETTER_QUEUE = 'rss-feed-dlq';
+
+// Deliveries before the runtime moves a message here (max_retries + 1 in wrangler.toml)
+const MAX_DELIVERY_ATTEMPTS = 4;
+
+const MAX_LIST_ROWS = 500;
+const MAX_BULK_REPLAY = 100;
+
+/**
+ * Send a message straight to the dead-letter queue (used for failures that
+ * retrying can't fix), carrying the failure details along.
+ */
+export async function sendToDeadLetter(
+  env: Env,
+  message: Message<FeedFetchMessage>,
+  result: FetchResult
+): Promise<void> {
+  await env.DEAD_LETTER_QUEUE.send({
+    ...message.body,
+    failure: {
+      attempts: message.attempts,
+      error: result.error,
+      errorCategory: result.errorCategory,
+      failedAt: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Consume the dead-letter queue: record each message in failed_fetches.
+ * Messages arrive here either explicitly (with `failure` details) or after
+ * exhausting max_retries on the main queue, in which case the feed row
+ * provides the last error.
+ */
+export async function recordDeadLetters(batch: MessageBatch<DeadLetterMessage>, env: Env): Promise<void> {
+  for (const message of batch.messages) {
+    const body = message.body;
+    try {
+      const feed = await env.DB.prepare('SELECT last_error, last_error_category FROM feeds WHERE id = ?')
+        .bind(body.feedId).first<Pick<Feed, 'last_error' | 'last_error_category'>>();
+      if (!feed) {
+        // Feed was deleted while its fetch was failing; nothing left to replay
+        console.log(`Dropped dead letter for deleted feed ${body.feedName}`);
+        message.ack();
+        continue;
+      }
+
+      const { failure, ...fetchMessage } = body;
+      await env.DB.prepare(`
+        INSERT INTO failed_fetches
+          (feed_id, feed_name, feed_url, message, attempts, last_error, last_error_category, first_queued_at, dead_lettered_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        body.feedId,
+        body.feedName,
+        body.feedUrl,
+        JSON.stringify(fetchMessage),
+        failure?.attempts ?? MAX_DELIVERY_ATTEMPTS,
+        failure?.error ?? feed.last_error ?? null,
+        failure?.errorCategory ?? feed.last_error_category ?? null,
+        message.timestamp.toISOString(),
+        failure?.failedAt ?? new Date().toISOString()
+      ).run();
+
+      console.log(`Recorded dead-lettered fetch for ${body.feedName}`);
+      message.ack();
+    } catch (error) {
+      console.error(`Failed to record dead letter for ${body.feedName}:`, error);
+      message.retry();
+    }
+  }
+}
+
+/**
+ * Route /api/failures:
+ * - GET    /api/failures[?feed={id}&pending=true]  list dead-lettered fetches
+ * - POST   /api/failures/{id}/replay               re-queue one failure
+ * - POST   /api/failures/replay                    re-queue pending failures (body: {"ids": [...]} optional)
+ * - DELETE /api/failures/{id}                      purge one failure
+ * - DELETE /api/failures[?replayed=true]           purge all (or only replayed) failures
+ */
+export async function handleFailuresApi(request: Request, env: Env, path: string): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (path === '/api/failures') {
+    if (request.method === 'GET') return listFailures(env, url.searchParams);
+    if (request.method === 'DELETE') return purgeFailures(env, url.searchParams.get('replayed') === 'true');
+  }
+
+  if (path === '/api/failures/replay' && request.method === 'POST') {
+    return replayFailures(request, env);
+  }
+
+  const replayMatch = path.match(/^\/api\/failures\/(\d+)\/replay$/);
+  if (replayMatch && request.method === 'POST') {
+    const replayed = await replayFailureIds(env, [parseInt(replayMatch[1])]);
+    if (replayed.length === 0) {
+      return Response.json({ error: 'Failure not found' }, { status: 404 });
+    }
+    return Response.json({ replayed });
+  }
+
+  const itemMatch = path.match(/^\/api\/failures\/(\d+)$/);
+  if (itemMatch && request.method === 'DELETE') {
+    const result = await env.DB.prepare('DELETE FROM failed_fetches WHERE id = ?')
+      .bind(parseInt(itemMatch[1])).run();
+    if (!result.meta.changes) {
+      return Response.json({ error: 'Failure not found' }, { status: 404 });
+    }
+    return Response.json({ deleted: 1 });
+  }
+
+  return Response.json({ error: 'Not Found' }, { status: 404 });
+}
+
+async function listFailures(env: Env, params: URLSearchParams): Promise<Response> {
+  const feedParam = params.get('feed');
+  if (feedParam !== null && !/^\d+$/.test(feedParam)) {
+    return Response.json({ error: 'feed must be a feed id' }, { status: 400 });
+  }
+  const feedId = feedParam !== null ? parseInt(feedParam) : null;
+  const pendingOnly = params.get('pending') === 'true';
+
+  const failures = await env.DB.prepare(`
+    SELECT id, feed_id, feed_name, feed_url, attempts, last_error, last_error_category,
+           first_queued_at, dead_lettered_at, replayed_at, replay_count
+    FROM failed_fetches
+    WHERE (? IS NULL OR feed_id = ?)
+      AND (? = 0 OR replayed_at IS NULL)
+    ORDER BY dead_lettered_at DESC, id DESC
+    LIMIT ?
+  `).bind(feedId, feedId, pendingOnly ? 1 : 0, MAX_LIST_ROWS).all();
+
+  return Response.json({ failures: failures.results || [] });
+}
+
+async function replayFailures(request: Request, env: Env): Promise<Response> {
+  let ids: number[] | undefined;
+  const body = await request.text();
+  if (body.trim()) {
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed.ids !== undefined) {
+        if (!Array.isArray(parsed.ids) || !parsed.ids.every((id: unknown) => Number.isInteger(id))) {
+          return Response.json({ error: 'ids must be an array of failure ids' }, { status: 400 });
+        }
+        ids = parsed.ids;
+      }
+    } catch {
+      return Response.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+  }
+
+  if (!ids) {
+    const pending = await env.DB.prepare(`
+      SELECT id FROM failed_fetches
+      WHERE replayed_at IS NULL
+      ORDER BY dead_lettered_at ASC
+      LIMIT ?
+    `).bind(MAX_BULK_REPLAY).all<{id: number}>();
+    ids = (pending.results || []).map(row => row.id);
+  }
+
+  if (ids.length > MAX_BULK_REPLAY) {
+    return Response.json({ error: `At most ${MAX_BULK_REPLAY} failures can be replayed at once` }, { status: 400 });
+  }
+
+  const replayed = await replayFailureIds(env, ids);
+  return Response.json({ replayed });
+}
+
+// Re-queue failures using the feed's current URL and cache headers
+async function replayFailureIds(env: Env, ids: number[]): Promise<{ id: number; feedId: number; feedName: string }[]> {
+  if (ids.length === 0) return [];
+
+  // failed_fetches rows cascade with their feed, so the join always matches
+  const failures = await env.DB.prepare(`
+    SELECT ff.id, f.id as feed_id, f.name, f.url, f.etag, f.last_modified
+    FROM failed_fetches ff
+    JOIN feeds f ON ff.feed_id = f.id
+    WHERE ff.id IN (${ids.map(() => '?').join(', ')})
+  `).bind(...ids).all<{
+    id: number;
+    feed_id: number;
+    name: string;
+    url: string;
+    etag: string | null;
+    last_modified: string | null;
+  }>();
+
+  const rows = failures.results || [];
+  if (rows.length === 0) return [];
+
+  // Several failures of the same feed only need one fetch
+  const feeds = new Map(rows.map(row => [row.feed_id, {
+    id: row.feed_id,
+    name: row.name,
+    url: row.url,
+    etag: row.etag,
+    last_modified: row.last_modified,
+  }]));
+  await sendFeedBatches(env, [...feeds.values()]);
+
+  const now = new Date().toISOString();
+  await env.DB.batch(rows.map(row =>
+    env.DB.prepare(`
+      UPDATE failed_fetches SET replayed_at = ?, replay_count = replay_count + 1
+      WHERE id = ?
+    `).bind(now, row.id)
+  ));
+
+  return rows.map(row => ({ id: row.id, feedId: row.feed_id, feedName: row.name }));
+}
+
+async function purgeFailures(env: Env, replayedOnly: boolean): Promise<Response> {
+  const result = await env.DB.prepare(`
+    DELETE FROM failed_fetches
+    WHERE ? = 0 OR replayed_at IS NOT NULL
+  `).bind(replayedOnly ? 1 : 0).run();
+
+  return Response.json({ deleted: result.meta.changes || 0 });
+}
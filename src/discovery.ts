@@ -0,0 +1,210 @@
+// Feed autodiscovery from a homepage URL
+import { Env, SourceFormat } from './types';
+import { isValidFeedUrl, upstreamFetch } from './fetcher';
+import { parseFeed } from './parser';
+import { readBodyBytes, decodeBody, readFeedBody, maxFeedBytes } from './body';
+
+// Paths tried on the site's origin in addition to advertised <link rel="alternate"> feeds
+const FALLBACK_PATHS = ['/feed', '/rss', '/atom.xml', '/index.xml', '/feed.xml', '/rss.xml'];
+
+const FEED_LINK_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json',
+  'application/json',
+  'application/xml',
+  'text/xml',
+];
+
+// Bound the number of upstream requests a single discovery can trigger
+const MAX_CANDIDATES = 10;
+const DISCOVERY_TIMEOUT_MS = 10000;
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+
+export interface FeedCandidate {
+  url: string;
+  source: 'direct' | 'link' | 'fallback';  // How the candidate was found
+  valid: boolean;
+  title?: string;
+  format?: SourceFormat;
+  itemCount?: number;
+  newestItem?: string;          // ISO date of the most recent item
+  daysSinceNewest?: number;
+  existingFeedId?: number;      // Already registered under this feed id
+  error?: string;
+}
+
+/**
+ * Handle GET /api/discover?url=... - find and test-parse feeds for a site.
+ * Valid candidates are listed first, freshest first.
+ */
+export async function handleDiscover(request: Request, env: Env): Promise<Response> {
+  const input = new URL(request.url).searchParams.get('url')?.trim();
+  if (!input) {
+    return Response.json({ error: 'url is required' }, { status: 400 });
+  }
+
+  // Accept bare hostnames like example.com
+  const siteUrl = /^https?:\/\//i.test(input) ? input : `https://${input}`;
+  if (!isValidFeedUrl(siteUrl)) {
+    return Response.json({ error: 'url must be a public http(s) URL' }, { status: 400 });
+  }
+
+  const candidates = await discoverFeeds(env, siteUrl);
+  return Response.json({ url: siteUrl, candidates });
+}
+
+export async function discoverFeeds(env: Env, siteUrl: string): Promise<FeedCandidate[]> {
+  const found = new Map<string, FeedCandidate['source']>();
+  let baseUrl = siteUrl;
+
+  try {
+    const response = await upstreamFetch(env, siteUrl, {
+      'Accept': 'text/html, application/xhtml+xml, application/rss+xml, application/atom+xml, */*',
+    }, DISCOVERY_TIMEOUT_MS);
+    baseUrl = response.url || siteUrl;
+    const body = decodeBody(
+      await readBodyBytes(response, MAX_HTML_BYTES, true),
+      response.headers.get('Content-Type') || ''
+    );
+
+    if (looksLikeFeed(body)) {
+      // The URL given is itself a feed
+      found.set(baseUrl, 'direct');
+    } else {
+      for (const href of extractFeedLinks(body)) {
+        addCandidate(found, href, baseUrl, 'link');
+      }
+    }
+  } catch (error) {
+    // Homepage unreachable; fallbacks on the origin may still work
+    console.error(`Discovery fetch failed for ${siteUrl}:`, error);
+  }
+
+  for (const path of FALLBACK_PATHS) {
+    addCandidate(found, path, new URL(baseUrl).origin, 'fallback');
+  }
+
+  const urls = [...found.entries()].slice(0, MAX_CANDIDATES);
+  const candidates = await Promise.all(urls.map(([url, source]) => testCandidate(env, url, source)));
+
+  // Mark candidates that are already registered
+  const validUrls = candidates.filter(candidate => candidate.valid).map(candidate => candidate.url);
+  if (validUrls.length > 0) {
+    const existing = await env.DB.prepare(`
+      SELECT id, url FROM feeds WHERE url IN (${validUrls.map(() => '?').join(', ')})
+    `).bind(...validUrls).all<{id: number; url: string}>();
+    for (const feed of existing.results || []) {
+      const candidate = candidates.find(c => c.url === feed.url);
+      if (candidate) candidate.existingFeedId = feed.id;
+    }
+  }
+
+  return candidates
+    .filter(candidate => candidate.valid || candidate.source !== 'fallback')
+    .sort((a, b) =>
+      Number(b.valid) - Number(a.valid) ||
+      (b.newestItem || '').localeCompare(a.newestItem || '')
+    );
+}
+
+async function testCandidate(env: Env, url: string, source: FeedCandidate['source']): Promise<FeedCandidate> {
+  try {
+    const response = await upstreamFetch(env, url, {
+      'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, */*',
+    }, DISCOVERY_TIMEOUT_MS);
+    if (!response.ok) {
+      return { url, source, valid: false, error: `HTTP ${response.status}` };
+    }
+
+    const { text: body } = await readFeedBody(response, maxFeedBytes(env));
+    if (!looksLikeFeed(body)) {
+      return { url, source, valid: false, error: 'Not a feed' };
+    }
+
+    const parsed = await parseFeed(body, url);
+    const dates = parsed.items
+      .map(item => item.published)
+      .filter((date): date is string => !!date)
+      .sort();
+    const newestItem = dates.length > 0 ? dates[dates.length - 1] : undefined;
+
+    return {
+      // Register the final URL so redirects aren't paid on every fetch
+      url: response.url || url,
+      source,
+      valid: true,
+      title: parsed.title,
+      format: parsed.format,
+      itemCount: parsed.items.length,
+      newestItem,
+      daysSinceNewest: newestItem
+        ? Math.floor((Date.now() - new Date(newestItem).getTime()) / 86400000)
+        : undefined,
+    };
+  } catch (error) {
+    return { url, source, valid: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Collect href values from <link rel="alternate" type="<feed type>"> tags
+function extractFeedLinks(html: string): string[] {
+  const hrefs: string[] = [];
+  const linkTags = html.match(/<link\b[^>]*>/gi) || [];
+
+  for (const tag of linkTags) {
+    const attrs = parseAttributes(tag);
+    const rel = (attrs.rel || '').toLowerCase().split(/\s+/);
+    const type = (attrs.type || '').toLowerCase().split(';')[0].trim();
+    if (rel.includes('alternate') && FEED_LINK_TYPES.includes(type) && attrs.href) {
+      hrefs.push(decodeEntities(attrs.href));
+    }
+  }
+
+  return hrefs;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([a-zA-Z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag)) !== null) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attrs;
+}
+
+function addCandidate(
+  found: Map<string, FeedCandidate['source']>,
+  href: string,
+  baseUrl: string,
+  source: FeedCandidate['source']
+): void {
+  try {
+    const url = new URL(href, baseUrl).toString();
+    if (!found.has(url) && isValidFeedUrl(url)) {
+      found.set(url, source);
+    }
+  } catch {
+    // Ignore unparseable hrefs
+  }
+}
+
+// Cheap sniff on the document start for RSS, Atom, RDF or JSON Feed
+function looksLikeFeed(body: string): boolean {
+  const head = body.substring(0, 2048).trimStart();
+  if (head.startsWith('{')) {
+    return head.includes('jsonfeed.org');
+  }
+  return /<([\w.-]+:)?(rss|feed|RDF)[\s>]/i.test(head);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
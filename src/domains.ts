@@ -0,0 +1,44 @@
+// Domain normalization shared by feed lookup, admin and ranking code
+// Mirrors the helpers in scripts/generate-import.py so domains match the feeds.domain column
+
+/**
+ * Normalize a domain for matching: lowercase, trimmed, without a leading www.
+ */
+export function normalizeDomain(domain: string): string {
+  const normalized = domain.toLowerCase().trim();
+  return normalized.startsWith('www.') ? normalized.substring(4) : normalized;
+}
+
+/**
+ * Extract the normalized domain from a URL, or null if the URL can't be parsed.
+ */
+export function extractDomain(url: string): string | null {
+  try {
+    return normalizeDomain(new URL(url).hostname);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Score how well a feed's domain matches a ranked domain (0 = no match).
+ * Same rules as domains_match() in scripts/update-ranks.py, ordered by specificity:
+ * 4 exact, 3 feed is a subdomain of the ranked domain, 2 ranked domain is a
+ * subdomain of the feed, 1 ranked entry has a path and its host matches.
+ */
+export function domainMatchScore(feedDomain: string, rankedDomain: string): number {
+  const feed = normalizeDomain(feedDomain);
+  const ranked = normalizeDomain(rankedDomain);
+
+  if (feed === ranked) return 4;
+  if (feed.endsWith('.' + ranked)) return 3;
+  if (ranked.endsWith('.' + feed)) return 2;
+
+  // Rankings like devblogs.microsoft.com/oldnewthing
+  if (ranked.includes('/')) {
+    const baseDomain = ranked.split('/')[0];
+    if (feed === baseDomain || feed.endsWith('.' + baseDomain)) return 1;
+  }
+
+  return 0;
+}
@@ -0,0 +1,113 @@
+// Fetch error classification and queue retry policy
+import { FetchErrorCategory } from './types';
+
+// Cloudflare Queues caps retry delays at 12 hours
+const MAX_RETRY_DELAY_SECONDS = 12 * 60 * 60;
+const BASE_RETRY_DELAY_SECONDS = 60;
+
+/**
+ * Error carrying a category, thrown inside the fetch path so the
+ * catch block can report it without guessing from the message.
+ */
+export class FeedFetchError extends Error {
+  constructor(
+    public readonly category: FetchErrorCategory,
+    message: string,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'FeedFetchError';
+  }
+}
+
+export type FeedParseFailure = 'invalid_xml' | 'invalid_json' | 'unrecognized_format';
+
+/**
+ * Feed body that isn't a parseable RSS, Atom, RDF or JSON Feed document.
+ * `root` names what was found instead (the XML root element, or `json`).
+ */
+export class FeedParseError extends FeedFetchError {
+  constructor(
+    public readonly reason: FeedParseFailure,
+    message: string,
+    public readonly root?: string
+  ) {
+    super('parse', message);
+    this.name = 'FeedParseError';
+  }
+}
+
+export type QueueAction =
+  | { action: 'ack' }
+  | { action: 'retry'; delaySeconds: number }
+  | { action: 'dead_letter' };
+
+/**
+ * Classify an exception thrown while fetching or parsing a feed.
+ * Runtime network errors only expose a message, so those are matched by text.
+ */
+export function classifyFetchError(error: unknown): FetchErrorCategory {
+  if (error instanceof FeedFetchError) {
+    return error.category;
+  }
+  if (!(error instanceof Error)) {
+    return 'unknown';
+  }
+
+  const message = error.message.toLowerCase();
+  if (error.name === 'AbortError' || error.name === 'TimeoutError' || /timed? ?out|aborted/.test(message)) {
+    return 'timeout';
+  }
+  if (/dns|getaddrinfo|enotfound|name not resolved|could not resolve/.test(message)) {
+    return 'dns';
+  }
+  if (/ssl|tls|certificate|handshake/.test(message)) {
+    return 'tls';
+  }
+  if (/network|connection|econnrefused|econnreset|socket/.test(message)) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+// Category for a non-2xx HTTP status
+export function categorizeHttpStatus(status: number): FetchErrorCategory {
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'http_5xx';
+  return 'http_4xx';
+}
+
+/**
+ * Decide what the queue consumer does with a failed fetch.
+ * Transient failures retry with exponential delay (or the upstream Retry-After);
+ * permanent ones are acknowledged since the next scheduled fetch will try again;
+ * blocked URLs are dead-lettered because they need an admin to fix the feed.
+ */
+export function retryPolicy(
+  category: FetchErrorCategory,
+  attempts: number,
+  retryAfterSeconds?: number
+): QueueAction {
+  switch (category) {
+    case 'rate_limited':
+    case 'http_5xx':
+    case 'timeout':
+    case 'network':
+    case 'dns':
+    case 'unknown': {
+      const backoff = BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0);
+      const delaySeconds = Math.min(Math.max(retryAfterSeconds ?? 0, backoff), MAX_RETRY_DELAY_SECONDS);
+      return { action: 'retry', delaySeconds };
+    }
+    case 'blocked_url':
+      return { action: 'dead_letter' };
+    case 'tls':
+    case 'redirect':
+    case 'too_large':
+    case 'not_feed':
+    case 'http_4xx':
+    case 'parse':
+    case 'empty_feed':
+      return { action: 'ack' };
+  }
+}
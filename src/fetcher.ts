@@ -1,68 +1,160 @@
 // Feed Fetcher - handles fetching and parsing RSS feeds
-import { Env, Feed, FeedFetchMessage, ParsedFeedItem, isSponsored } from './types';
+import {
+  Env,
+  Feed,
+  FeedFetchMessage,
+  FetchErrorCategory,
+  FetchResult,
+  ParsedFeed,
+  ParsedFeedItem,
+  isSponsored,
+} from './types';
 import { parseFeed } from './parser';
+import { indexEntry, unindexEntriesBefore } from './search';
+import { scheduleNextFetch, scheduleAfterFailure, parseCacheHeaders } from './scheduler';
+import { FeedFetchError, classifyFetchError, categorizeHttpStatus } from './errors';
+import { logFetch } from './health';
+import { trackPermanentRedirect } from './redirects';
+import { isPublicUrl, assertPublicUrl } from './ssrf';
+import { readFeedBody, maxFeedBytes } from './body';
+import { canonicalUrlKey } from './canonical';
 
 const USER_AGENT = 'RSSAggregator/1.0 (Cloudflare Workers; +https://github.com/rss-aggregator)';
+const FETCH_TIMEOUT_MS = 15000;
+
+// SSRF protection: static URL check used to validate input (see ssrf.ts)
+export function isValidFeedUrl(url: string): boolean {
+  return isPublicUrl(url);
+}
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export interface UpstreamResponse {
+  response: Response;
+  finalUrl: string;
+  permanentUrl: string | null;  // Target of the leading run of 301/308 hops, if any
+}
+
+/**
+ * Fetch an upstream URL with our User-Agent and a timeout.
+ * Every outbound request goes through here so the SSRF check can't be skipped.
+ */
+export async function upstreamFetch(
+  env: Env,
+  url: string,
+  headers: Record<string, string> = {},
+  timeoutMs = FETCH_TIMEOUT_MS
+): Promise<Response> {
+  return (await upstreamFetchWithRedirects(env, url, headers, timeoutMs)).response;
+}
+
+/**
+ * Like upstreamFetch, but follows redirects by hand so every hop passes the SSRF
+ * check, and reports where a permanently moved URL now lives.
+ */
+export async function upstreamFetchWithRedirects(
+  env: Env,
+  url: string,
+  headers: Record<string, string> = {},
+  timeoutMs = FETCH_TIMEOUT_MS
+): Promise<UpstreamResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  let currentUrl = url;
+  let permanentUrl: string | null = null;
+  let permanentChain = true;
 
-// SSRF protection: validate URLs before fetching
-function isValidFeedUrl(url: string): boolean {
   try {
-    const parsed = new URL(url);
-    // Only allow http/https
-    if (!['http:', 'https:'].includes(parsed.protocol)) return false;
-    // Block internal/private ranges
-    const hostname = parsed.hostname.toLowerCase();
-    if (hostname === 'localhost' || 
-        hostname === '127.0.0.1' ||
-        hostname === '[::1]' ||
-        hostname.endsWith('.local') ||
-        hostname.endsWith('.internal') ||
-        hostname.startsWith('192.168.') ||
-        hostname.startsWith('10.') ||
-        hostname.startsWith('172.16.') ||
-        hostname.startsWith('172.17.') ||
-        hostname.startsWith('172.18.') ||
-        hostname.startsWith('172.19.') ||
-        hostname.startsWith('172.20.') ||
-        hostname.startsWith('172.21.') ||
-        hostname.startsWith('172.22.') ||
-        hostname.startsWith('172.23.') ||
-        hostname.startsWith('172.24.') ||
-        hostname.startsWith('172.25.') ||
-        hostname.startsWith('172.26.') ||
-        hostname.startsWith('172.27.') ||
-        hostname.startsWith('172.28.') ||
-        hostname.startsWith('172.29.') ||
-        hostname.startsWith('172.30.') ||
-        hostname.startsWith('172.31.') ||
-        hostname.startsWith('169.254.') ||  // Link-local
-        hostname.startsWith('0.')) {
-      return false;
+    for (let hop = 0; ; hop++) {
+      await assertPublicUrl(env, currentUrl);
+
+      const response = await fetch(currentUrl, {
+        headers: { 'User-Agent': USER_AGENT, ...headers },
+        signal: controller.signal,
+        redirect: 'manual',
+      });
+
+      const location = response.headers.get('Location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location) {
+        return { response, finalUrl: currentUrl, permanentUrl };
+      }
+      await response.body?.cancel();
+
+      if (hop >= MAX_REDIRECTS) {
+        throw new FeedFetchError('redirect', `More than ${MAX_REDIRECTS} redirects`);
+      }
+
+      let nextUrl: string;
+      try {
+        nextUrl = new URL(location, currentUrl).toString();
+      } catch {
+        throw new FeedFetchError('redirect', `Invalid redirect location: ${location}`);
+      }
+
+      // A temporary hop means later hops say nothing about where the feed itself lives
+      if (permanentChain && (response.status === 301 || response.status === 308)) {
+        permanentUrl = nextUrl;
+      } else {
+        permanentChain = false;
+      }
+      currentUrl = nextUrl;
     }
-    return true;
-  } catch {
-    return false;
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
+// Response details gathered during a fetch for the fetch log
+interface FetchAttempt {
+  status: number | null;
+  bytes: number;
+  notModified: boolean;
+}
+
+/**
+ * Fetch one feed. `queueAttempts` is the queue delivery count: queue retries of the
+ * same scheduled fetch don't add to the feed's consecutive failure count.
+ */
 export async function fetchFeed(
   message: FeedFetchMessage,
-  env: Env
-): Promise<{ success: boolean; newEntries: number; error?: string }> {
+  env: Env,
+  queueAttempts = 1
+): Promise<FetchResult> {
+  const started = Date.now();
+  const attempt: FetchAttempt = { status: null, bytes: 0, notModified: false };
+  const result = await runFetch(message, env, attempt, queueAttempts > 1);
+
+  await logFetch(env.DB, {
+    feedId: message.feedId,
+    status: attempt.status,
+    durationMs: Date.now() - started,
+    bytes: attempt.bytes,
+    notModified: attempt.notModified,
+    newEntries: result.newEntries,
+    errorCategory: result.success ? undefined : result.errorCategory,
+  });
+
+  return result;
+}
+
+async function runFetch(
+  message: FeedFetchMessage,
+  env: Env,
+  attempt: FetchAttempt,
+  isRetry: boolean
+): Promise<FetchResult> {
   const { feedId, feedUrl, feedName, etag, lastModified } = message;
   
   // SSRF protection: validate URL before fetching
   if (!isValidFeedUrl(feedUrl)) {
-    const error = 'Invalid or blocked URL';
-    await updateFeedStatus(env.DB, feedId, false, error);
-    return { success: false, newEntries: 0, error };
+    return recordFailure(env, feedId, new FeedFetchError('blocked_url', 'Invalid or blocked URL'), isRetry);
   }
   
   try {
     // Build request headers
-    const headers: HeadersInit = {
-      'User-Agent': USER_AGENT,
-      'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
+    const headers: Record<string, string> = {
+      'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, */*',
     };
     
     if (etag) {
@@ -73,31 +165,31 @@ export async function fetchFeed(
     }
 
     // Fetch with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000);
-    
-    let response: Response;
-    try {
-      response = await fetch(feedUrl, {
-        headers,
-        signal: controller.signal,
-        redirect: 'follow',
-      });
-    } finally {
-      clearTimeout(timeoutId);
-    }
+    const { response, permanentUrl } = await upstreamFetchWithRedirects(env, feedUrl, headers);
+    attempt.status = response.status;
+
+    const cacheHints = parseCacheHeaders(response.headers);
 
     // Handle 304 Not Modified
     if (response.status === 304) {
+      attempt.notModified = true;
+      // A 304 from the redirect target doesn't prove a feed lives there; only clear
+      // a pending move when the feed answered at its own URL
+      if (!permanentUrl) {
+        await trackPermanentRedirect(env, feedId, feedUrl, null);
+      }
       await updateFeedStatus(env.DB, feedId, true);
-      return { success: true, newEntries: 0 };
+      await scheduleNextFetch(env.DB, feedId, { notModified: true, ...cacheHints });
+      return { success: true, newEntries: 0, updatedEntries: 0 };
     }
 
     // Handle errors
     if (!response.ok) {
-      const error = `HTTP ${response.status}: ${response.statusText}`;
-      await updateFeedStatus(env.DB, feedId, false, error);
-      return { success: false, newEntries: 0, error };
+      throw new FeedFetchError(
+        categorizeHttpStatus(response.status),
+        `HTTP ${response.status}: ${response.statusText}`,
+        cacheHints.retryAfterSeconds
+      );
     }
 
     // Get response headers for caching
@@ -105,110 +197,437 @@ export async function fetchFeed(
     const newLastModified = response.headers.get('Last-Modified');
 
     // Parse feed
-    const xml = await response.text();
-    const parsed = parseFeed(xml, feedUrl);
+    const { text: xml, bytes } = await readFeedBody(response, maxFeedBytes(env));
+    attempt.bytes = bytes;
+    let parsed: ParsedFeed;
+    try {
+      parsed = await parseFeed(xml, feedUrl);
+    } catch (error) {
+      if (error instanceof FeedFetchError) throw error;
+      throw new FeedFetchError('parse', `Parse error: ${error instanceof Error ? error.message : 'invalid XML'}`);
+    }
+    // Move the feed to its new URL once the permanent redirect has been seen often
+    // enough, counting only redirects to a working feed (not a 404 or a homepage)
+    await trackPermanentRedirect(env, feedId, feedUrl, permanentUrl);
 
-    // Store new entries
-    const newEntries = await storeEntries(env.DB, feedId, parsed.items);
+    // Store new entries and apply upstream edits
+    const { newEntries, updatedEntries } = await storeEntries(env.DB, feedId, parsed.items);
 
-    // Update feed status with cache headers
-    await updateFeedStatus(env.DB, feedId, true, undefined, newEtag, newLastModified);
+    // Update feed status with cache headers. A feed with no items is still a
+    // successful fetch; its category is kept for reporting only.
+    const empty = parsed.items.length === 0;
+    await updateFeedStatus(
+      env.DB, feedId, true,
+      empty ? 'Feed has no items' : undefined,
+      newEtag, newLastModified,
+      empty ? 'empty_feed' : undefined
+    );
+    await scheduleNextFetch(env.DB, feedId, {
+      notModified: false,
+      ...cacheHints,
+      refreshInterval: parsed.refreshInterval,
+    });
 
-    return { success: true, newEntries };
+    return { success: true, newEntries, updatedEntries };
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-    await updateFeedStatus(env.DB, feedId, false, errorMsg);
-    return { success: false, newEntries: 0, error: errorMsg };
+    return recordFailure(env, feedId, error, isRetry);
   }
 }
 
+// Record a failed fetch and back off (or quarantine) according to consecutive failures.
+// A queue retry records its error but counts as the same failed scheduled fetch.
+async function recordFailure(env: Env, feedId: number, error: unknown, isRetry: boolean): Promise<FetchResult> {
+  const errorCategory = classifyFetchError(error);
+  const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+  const retryAfterSeconds = error instanceof FeedFetchError ? error.retryAfterSeconds : undefined;
+
+  const errorCount = await updateFeedStatus(env.DB, feedId, false, errorMsg, undefined, undefined, errorCategory, !isRetry);
+  const { quarantined } = await scheduleAfterFailure(env, feedId, errorCount, retryAfterSeconds);
+  if (quarantined && !isRetry) {
+    console.log(`Feed ${feedId} quarantined after ${errorCount} consecutive failures`);
+  }
+
+  return { success: false, newEntries: 0, updatedEntries: 0, error: errorMsg, errorCategory, retryAfterSeconds };
+}
+
 async function updateFeedStatus(
   db: D1Database,
   feedId: number,
   success: boolean,
   error?: string,
   etag?: string | null,
-  lastModified?: string | null
-): Promise<void> {
+  lastModified?: string | null,
+  errorCategory?: FetchErrorCategory,
+  countFailure = true
+): Promise<number> {
   const now = new Date().toISOString();
   
   if (success) {
+    // A successful fetch (including a quarantine probe) ends any quarantine
     await db.prepare(`
       UPDATE feeds SET
         last_fetched = ?,
+        last_success_at = ?,
         fetch_count = fetch_count + 1,
         etag = COALESCE(?, etag),
         last_modified = COALESCE(?, last_modified),
         error_count = 0,
-        last_error = NULL,
-        updated_at = ?
-      WHERE id = ?
-    `).bind(now, etag, lastModified, now, feedId).run();
-  } else {
-    await db.prepare(`
-      UPDATE feeds SET
-        last_fetched = ?,
-        error_count = error_count + 1,
         last_error = ?,
+        last_error_category = ?,
+        quarantined_at = NULL,
         updated_at = ?
       WHERE id = ?
-    `).bind(now, error, now, feedId).run();
+    `).bind(now, now, etag, lastModified, error ?? null, errorCategory ?? null, now, feedId).run();
+    return 0;
   }
+
+  // error_count is reset on success, so it counts consecutive failed scheduled fetches
+  const result = await db.prepare(`
+    UPDATE feeds SET
+      last_fetched = ?,
+      error_count = error_count + ?,
+      last_error = ?,
+      last_error_category = ?,
+      updated_at = ?
+    WHERE id = ?
+    RETURNING error_count
+  `).bind(now, countFailure ? 1 : 0, error, errorCategory ?? 'unknown', now, feedId).first<{error_count: number}>();
+  return result?.error_count ?? 1;
+}
+
+// D1 allows at most 100 bound parameters per statement
+const LOOKUP_CHUNK_SIZE = 90;
+// Older revisions beyond this are dropped
+const MAX_REVISIONS_PER_ENTRY = 10;
+
+interface StoredEntry {
+  id: string;
+  guid: string | null;
+  title: string;
+  link: string;
+  summary: string | null;
+  content: string | null;
+  author: string | null;
+  tags: string | null;
+  updated: string | null;
+  content_hash: string | null;
+  canonical_url: string | null;
 }
 
+const STORED_ENTRY_COLUMNS = 'id, guid, title, link, summary, content, author, tags, updated, content_hash, canonical_url';
+
+/**
+ * Primary key for a new entry. Upstream ids are only unique within a feed, so
+ * two blogs using the same guid (e.g. `1`) get distinct rows.
+ */
+function scopedEntryId(feedId: number, guid: string): string {
+  return `${feedId}:${guid}`;
+}
+
+/**
+ * Insert new entries and update changed ones. Entries are matched by their
+ * upstream id (`guid`) within the feed, falling back to their link when the feed
+ * regenerated ids. An entry changed when the hash of its meaningful fields
+ * differs; the previous version is kept in entry_revisions and `updated` is
+ * bumped so readers see the edit.
+ */
 async function storeEntries(
   db: D1Database,
   feedId: number,
   items: ParsedFeedItem[]
-): Promise<number> {
+): Promise<{ newEntries: number; updatedEntries: number }> {
   let newCount = 0;
+  let updatedCount = 0;
   
   // Filter out sponsored content before storing
   const filteredItems = items.filter(item => !isSponsored(item));
+  const existing = await loadStoredEntries(db, feedId, filteredItems.map(item => item.id));
+  const rekeyed = await matchChangedIds(db, feedId, filteredItems, existing);
+  const firstSeen = new Date().toISOString();
   
   for (const item of filteredItems) {
     try {
-      // Use INSERT OR IGNORE to skip duplicates
-      const result = await db.prepare(`
-        INSERT OR IGNORE INTO entries (id, feed_id, title, link, permalink, published, updated, summary, content, author, tags)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).bind(
-        item.id,
-        feedId,
-        item.title,
-        item.link,
-        item.permalink || null,  // Blog's own URL (for linkblogs)
-        item.published || null,
-        item.updated || null,
-        item.summary || null,
-        item.content || null,
-        item.author || null,
-        item.tags ? JSON.stringify(item.tags) : null
-      ).run();
+      const hash = await hashEntry(item);
+      const stored = existing.get(item.id);
+      
+      if (!stored) {
+        const entryId = scopedEntryId(feedId, item.id);
+        // OR IGNORE: the feed may list the same id twice
+        const result = await db.prepare(`
+          INSERT OR IGNORE INTO entries (id, guid, feed_id, title, link, permalink, published, date_inferred, updated, summary, content, author, tags, enclosures, thumbnail, content_hash, canonical_url)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+          entryId,
+          item.id,
+          feedId,
+          item.title,
+          item.link,
+          item.permalink || null,  // Blog's own URL (for linkblogs)
+          item.published || firstSeen,  // Missing or implausible dates become the first-seen time
+          item.dateInferred || !item.published ? 1 : 0,
+          item.updated || null,
+          item.summary || null,
+          item.content || null,
+          item.author || null,
+          item.tags ? JSON.stringify(item.tags) : null,
+          enclosuresJson(item),
+          item.thumbnail || null,
+          hash,
+          entryCanonicalUrl(item)
+        ).run();
+        
+        if (result.meta.changes > 0) {
+          newCount++;
+          await indexEntry(db, entryId, item);
+        }
+        continue;
+      }
       
-      if (result.meta.changes > 0) {
-        newCount++;
+      if (stored.content_hash === hash) {
+        // Same content; only follow a newer upstream timestamp
+        if (item.updated && item.updated !== stored.updated && (!stored.updated || item.updated > stored.updated)) {
+          await db.prepare('UPDATE entries SET updated = ? WHERE id = ?').bind(item.updated, stored.id).run();
+        }
+        continue;
       }
+      
+      // Rows stored before hashing (or before sanitization, enclosures and canonical
+      // URLs, see migrations 0013, 0016 and 0017) are backfilled without counting as an edit
+      if (stored.content_hash === null) {
+        await backfillEntry(db, stored.id, item, hash);
+        continue;
+      }
+      
+      await updateEntry(db, stored, item, hash);
+      updatedCount++;
     } catch (error) {
       // Log but continue with other items
       console.error(`Failed to store entry ${item.id}:`, error);
     }
   }
   
-  return newCount;
+  if (newCount > 0) {
+    await db.prepare('UPDATE feeds SET last_new_entry_at = ? WHERE id = ?')
+      .bind(firstSeen, feedId).run();
+  }
+  if (rekeyed > 0) {
+    console.warn(`Feed ${feedId} changed the id of ${rekeyed} of ${filteredItems.length} entries`);
+    await db.prepare(`
+      UPDATE feeds SET id_churn_count = id_churn_count + ?, last_id_churn_at = ? WHERE id = ?
+    `).bind(rekeyed, firstSeen, feedId).run();
+  }
+  
+  return { newEntries: newCount, updatedEntries: updatedCount };
 }
 
-// Queue all feeds for fetching (called by cron)
-export async function queueAllFeeds(env: Env): Promise<{ queued: number }> {
-  // Get all feeds with their cache headers
+async function loadStoredEntries(db: D1Database, feedId: number, guids: string[]): Promise<Map<string, StoredEntry>> {
+  const stored = new Map<string, StoredEntry>();
+  for (let i = 0; i < guids.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = guids.slice(i, i + LOOKUP_CHUNK_SIZE);
+    const rows = await db.prepare(`
+      SELECT ${STORED_ENTRY_COLUMNS}
+      FROM entries
+      WHERE feed_id = ? AND guid IN (${chunk.map(() => '?').join(', ')})
+    `).bind(feedId, ...chunk).all<StoredEntry>();
+    for (const row of rows.results || []) {
+      stored.set(row.guid!, row);
+    }
+  }
+  return stored;
+}
+
+/**
+ * Detect id churn: feeds that regenerate guids on every build would otherwise
+ * re-insert their whole item list. An unmatched item whose link belongs to exactly
+ * one stored entry (no longer listed under its old id) takes over that entry; the
+ * row keeps its primary key so published ids stay stable. Adds the matches to
+ * `existing` and returns how many entries were re-keyed.
+ */
+async function matchChangedIds(
+  db: D1Database,
+  feedId: number,
+  items: ParsedFeedItem[],
+  existing: Map<string, StoredEntry>
+): Promise<number> {
+  const currentIds = new Set(items.map(item => item.id));
+  const unmatched = new Map<string, ParsedFeedItem[]>();
+  for (const item of items) {
+    if (existing.has(item.id)) continue;
+    const key = entryCanonicalUrl(item);
+    if (key) unmatched.set(key, [...(unmatched.get(key) || []), item]);
+  }
+  if (unmatched.size === 0) return 0;
+
+  const candidates = new Map<string, StoredEntry[]>();
+  const keys = [...unmatched.keys()];
+  for (let i = 0; i < keys.length; i += LOOKUP_CHUNK_SIZE) {
+    const keyChunk = keys.slice(i, i + LOOKUP_CHUNK_SIZE);
+    const rows = await db.prepare(`
+      SELECT ${STORED_ENTRY_COLUMNS}
+      FROM entries
+      WHERE feed_id = ? AND canonical_url IN (${keyChunk.map(() => '?').join(', ')})
+    `).bind(feedId, ...keyChunk).all<StoredEntry>();
+    for (const row of rows.results || []) {
+      if (row.guid !== null && currentIds.has(row.guid)) continue;  // Still listed under its own id
+      const key = row.canonical_url!;
+      const rowsForKey = candidates.get(key) || [];
+      if (!rowsForKey.some(candidate => candidate.id === row.id)) rowsForKey.push(row);
+      candidates.set(key, rowsForKey);
+    }
+  }
+
+  let rekeyed = 0;
+  for (const [key, keyItems] of unmatched) {
+    const rows = candidates.get(key) || [];
+    // Ambiguous when several items or entries share the link
+    if (keyItems.length !== 1 || rows.length !== 1) continue;
+    const [item] = keyItems;
+    const [row] = rows;
+    await db.prepare('UPDATE entries SET guid = ? WHERE id = ?').bind(item.id, row.id).run();
+    existing.set(item.id, { ...row, guid: item.id });
+    rekeyed++;
+  }
+  return rekeyed;
+}
+
+async function updateEntry(db: D1Database, stored: StoredEntry, item: ParsedFeedItem, hash: string): Promise<void> {
+  const now = new Date().toISOString();
+  // Readers only notice an edit if <updated> moves forward
+  const updated = item.updated && (!stored.updated || item.updated > stored.updated) ? item.updated : now;
+  
+  await db.batch([
+    db.prepare(`
+      INSERT INTO entry_revisions (entry_id, title, link, summary, content, author, tags, updated, content_hash, replaced_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      stored.id,
+      stored.title,
+      stored.link,
+      stored.summary,
+      stored.content,
+      stored.author,
+      stored.tags,
+      stored.updated,
+      stored.content_hash,
+      now
+    ),
+    db.prepare(`
+      DELETE FROM entry_revisions
+      WHERE entry_id = ? AND id NOT IN (
+        SELECT id FROM entry_revisions WHERE entry_id = ? ORDER BY id DESC LIMIT ?
+      )
+    `).bind(stored.id, stored.id, MAX_REVISIONS_PER_ENTRY),
+    db.prepare(`
+      UPDATE entries SET
+        title = ?, link = ?, permalink = ?, updated = ?, summary = ?, content = ?,
+        author = ?, tags = ?, enclosures = ?, thumbnail = ?, content_hash = ?, canonical_url = ?
+      WHERE id = ?
+    `).bind(
+      item.title,
+      item.link,
+      item.permalink || null,
+      updated,
+      item.summary || null,
+      item.content || null,
+      item.author || null,
+      item.tags ? JSON.stringify(item.tags) : null,
+      enclosuresJson(item),
+      item.thumbnail || null,
+      hash,
+      entryCanonicalUrl(item),
+      stored.id
+    ),
+    db.prepare('DELETE FROM entries_fts WHERE entry_id = ?').bind(stored.id),
+  ]);
+  await indexEntry(db, stored.id, item);
+}
+
+// Rewrite every hashed column and the search index row, keeping dates and revisions
+async function backfillEntry(db: D1Database, id: string, item: ParsedFeedItem, hash: string): Promise<void> {
+  await db.batch([
+    db.prepare(`
+      UPDATE entries SET
+        title = ?, link = ?, permalink = ?, summary = ?, content = ?, author = ?,
+        tags = ?, enclosures = ?, thumbnail = ?, content_hash = ?, canonical_url = ?
+      WHERE id = ?
+    `).bind(
+      item.title,
+      item.link,
+      item.permalink || null,
+      item.summary || null,
+      item.content || null,
+      item.author || null,
+      item.tags ? JSON.stringify(item.tags) : null,
+      enclosuresJson(item),
+      item.thumbnail || null,
+      hash,
+      entryCanonicalUrl(item),
+      id
+    ),
+    db.prepare('DELETE FROM entries_fts WHERE entry_id = ?').bind(id),
+  ]);
+  await indexEntry(db, id, item);
+}
+
+// Items without a link of their own are never matched to other entries by URL
+function entryCanonicalUrl(item: ParsedFeedItem): string | null {
+  return item.linkInferred ? null : canonicalUrlKey(item.link);
+}
+
+function enclosuresJson(item: ParsedFeedItem): string | null {
+  return item.enclosures?.length ? JSON.stringify(item.enclosures) : null;
+}
+
+// SHA-256 over the fields readers see; dates are left out so re-dated items aren't edits
+async function hashEntry(item: ParsedFeedItem): Promise<string> {
+  const fields = JSON.stringify([
+    item.title,
+    item.link,
+    item.summary || null,
+    item.content || null,
+    item.author || null,
+    item.tags || null,
+    item.enclosures?.length ? item.enclosures : null,
+    item.thumbnail || null,
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fields));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Queue feeds that are due for fetching (called by cron)
+// `force` queues every enabled feed regardless of its next_fetch_at; quarantined
+// feeds are never included here (see queueQuarantineProbes)
+export async function queueAllFeeds(env: Env, force = false): Promise<{ queued: number }> {
+  // Get due feeds with their cache headers
   const feeds = await env.DB.prepare(`
     SELECT id, name, url, etag, last_modified
     FROM feeds
-    WHERE url IS NOT NULL
+    WHERE url IS NOT NULL AND disabled = 0 AND quarantined_at IS NULL
+      AND (? OR next_fetch_at IS NULL OR next_fetch_at <= ?)
     ORDER BY rank ASC NULLS LAST, id ASC
-  `).all<Feed>();
+  `).bind(force ? 1 : 0, new Date().toISOString()).all<Feed>();
   
-  if (!feeds.results || feeds.results.length === 0) {
+  return sendFeedBatches(env, feeds.results || []);
+}
+
+// Queue probe fetches for quarantined feeds whose probe time has come (called by cron)
+export async function queueQuarantineProbes(env: Env): Promise<{ queued: number }> {
+  const feeds = await env.DB.prepare(`
+    SELECT id, name, url, etag, last_modified
+    FROM feeds
+    WHERE url IS NOT NULL AND disabled = 0 AND quarantined_at IS NOT NULL
+      AND (next_fetch_at IS NULL OR next_fetch_at <= ?)
+    ORDER BY rank ASC NULLS LAST, id ASC
+  `).bind(new Date().toISOString()).all<Feed>();
+
+  return sendFeedBatches(env, feeds.results || []);
+}
+
+export async function sendFeedBatches(
+  env: Env,
+  feeds: Pick<Feed, 'id' | 'name' | 'url' | 'etag' | 'last_modified'>[]
+): Promise<{ queued: number }> {
+  if (feeds.length === 0) {
     return { queued: 0 };
   }
   
@@ -216,8 +635,8 @@ export async function queueAllFeeds(env: Env): Promise<{ queued: number }> {
   const batchSize = 100;
   let queued = 0;
   
-  for (let i = 0; i < feeds.results.length; i += batchSize) {
-    const batch = feeds.results.slice(i, i + batchSize);
+  for (let i = 0; i < feeds.length; i += batchSize) {
+    const batch = feeds.slice(i, i + batchSize);
     const messages: MessageSendRequest<FeedFetchMessage>[] = batch.map(feed => ({
       body: {
         feedId: feed.id,
@@ -235,12 +654,29 @@ export async function queueAllFeeds(env: Env): Promise<{ queued: number }> {
   return { queued };
 }
 
+// Queue a single feed for an immediate one-off fetch (e.g. right after it is added)
+export async function queueFeed(
+  env: Env,
+  feed: Pick<Feed, 'id' | 'name' | 'url'> & Partial<Pick<Feed, 'etag' | 'last_modified'>>
+): Promise<void> {
+  await env.FEED_QUEUE.send({
+    feedId: feed.id,
+    feedUrl: feed.url,
+    feedName: feed.name,
+    etag: feed.etag || undefined,
+    lastModified: feed.last_modified || undefined,
+  });
+}
+
 // Prune old entries (called periodically)
 export async function pruneOldEntries(env: Env): Promise<{ deleted: number }> {
   const retentionDays = parseInt(env.RETENTION_DAYS) || 30;
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
   
+  // Keep the search index in sync (must run while the entries still exist)
+  await unindexEntriesBefore(env.DB, cutoffDate.toISOString());
+  
   const result = await env.DB.prepare(`
     DELETE FROM entries
     WHERE created_at < ?
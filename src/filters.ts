@@ -0,0 +1,161 @@
+// Tag, keyword and enclosure filters for generated feeds
+// Filters are applied in SQL so the entry LIMIT counts matching entries only
+
+const MAX_FILTER_TERMS = 10;
+const MAX_TERM_LENGTH = 64;
+
+export interface EntryFilter {
+  includeTags: string[];  // Entry must carry at least one of these tags
+  excludeTags: string[];  // Entry must carry none of these tags
+  keywords: string[];     // Every keyword must appear in title, summary or content
+  excludeKeywords: string[];  // No keyword may appear in title, summary or content
+  enclosures?: EnclosureFilter;  // Only entries carrying this kind of media
+}
+
+// 'image': a thumbnail or image enclosure; 'media': an audio or video enclosure
+export type EnclosureFilter = 'image' | 'media';
+
+const ENCLOSURE_FILTERS: EnclosureFilter[] = ['image', 'media'];
+
+/**
+ * Normalize a tag for case-insensitive matching (`#Rust` and `rust` are the same tag).
+ * Must stay in sync with normalizedTagSql, applied to stored tags.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/^#+/, '');
+}
+
+// SQL equivalent of normalizeTag for a stored tag value
+export function normalizedTagSql(value: string): string {
+  return `ltrim(lower(trim(${value})), '#')`;
+}
+
+// json_each source for a JSON array column; malformed values count as empty
+export function jsonArraySql(column: string): string {
+  return `json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END)`;
+}
+
+/**
+ * Parse tag/keyword filter query parameters:
+ * `tag=` and `-tag=` (repeatable), `q=` and `-q=` (repeatable), `enclosures=image|media`.
+ */
+export function parseEntryFilter(params: URLSearchParams): { filter?: EntryFilter; error?: string } {
+  const includeTags = uniqueSorted(params.getAll('tag').map(normalizeTag));
+  const excludeTags = uniqueSorted(params.getAll('-tag').map(normalizeTag));
+  const keywords = uniqueSorted(params.getAll('q').map(normalizeKeyword));
+  const excludeKeywords = uniqueSorted(params.getAll('-q').map(normalizeKeyword));
+
+  const terms = [...includeTags, ...excludeTags, ...keywords, ...excludeKeywords];
+  if (terms.length > MAX_FILTER_TERMS) {
+    return { error: `At most ${MAX_FILTER_TERMS} tag and keyword filters are allowed` };
+  }
+  if (terms.some(term => term.length === 0 || term.length > MAX_TERM_LENGTH)) {
+    return { error: `Tags and keywords must be 1-${MAX_TERM_LENGTH} characters` };
+  }
+
+  const enclosures = params.get('enclosures')?.trim().toLowerCase() || undefined;
+  if (enclosures !== undefined && !ENCLOSURE_FILTERS.includes(enclosures as EnclosureFilter)) {
+    return { error: 'enclosures must be image or media' };
+  }
+
+  return {
+    filter: { includeTags, excludeTags, keywords, excludeKeywords, enclosures: enclosures as EnclosureFilter | undefined },
+  };
+}
+
+export function hasFilter(filter: EntryFilter | undefined): filter is EntryFilter {
+  return !!filter && (
+    filter.includeTags.length > 0 ||
+    filter.excludeTags.length > 0 ||
+    filter.keywords.length > 0 ||
+    filter.excludeKeywords.length > 0 ||
+    filter.enclosures !== undefined
+  );
+}
+
+/**
+ * Append filter parameters in a fixed order (values are already sorted by
+ * parseEntryFilter) so equivalent filters produce the same URL.
+ */
+export function appendFilterParams(params: URLSearchParams, filter: EntryFilter | undefined): void {
+  if (!filter) return;
+  for (const tag of filter.includeTags) params.append('tag', tag);
+  for (const tag of filter.excludeTags) params.append('-tag', tag);
+  for (const keyword of filter.keywords) params.append('q', keyword);
+  for (const keyword of filter.excludeKeywords) params.append('-q', keyword);
+  if (filter.enclosures) params.append('enclosures', filter.enclosures);
+}
+
+/**
+ * Build SQL conditions for a filter against the `entries` table aliased as `e`.
+ * Returns an empty clause when the filter is empty; otherwise a string starting with AND.
+ */
+export function buildFilterClause(filter: EntryFilter | undefined): { sql: string; params: string[] } {
+  if (!hasFilter(filter)) {
+    return { sql: '', params: [] };
+  }
+
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (filter.includeTags.length > 0) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM ${jsonArraySql('e.tags')} t
+      WHERE ${normalizedTagSql('t.value')} IN (${filter.includeTags.map(() => '?').join(', ')})
+    )`);
+    params.push(...filter.includeTags);
+  }
+
+  if (filter.excludeTags.length > 0) {
+    conditions.push(`NOT EXISTS (
+      SELECT 1 FROM ${jsonArraySql('e.tags')} t
+      WHERE ${normalizedTagSql('t.value')} IN (${filter.excludeTags.map(() => '?').join(', ')})
+    )`);
+    params.push(...filter.excludeTags);
+  }
+
+  // LIKE is case-insensitive for ASCII in SQLite
+  for (const keyword of filter.keywords) {
+    const pattern = likePattern(keyword);
+    conditions.push(`(e.title LIKE ? ESCAPE '\\' OR e.summary LIKE ? ESCAPE '\\' OR e.content LIKE ? ESCAPE '\\')`);
+    params.push(pattern, pattern, pattern);
+  }
+
+  for (const keyword of filter.excludeKeywords) {
+    const pattern = likePattern(keyword);
+    conditions.push(`NOT (e.title LIKE ? ESCAPE '\\' OR COALESCE(e.summary, '') LIKE ? ESCAPE '\\' OR COALESCE(e.content, '') LIKE ? ESCAPE '\\')`);
+    params.push(pattern, pattern, pattern);
+  }
+
+  if (filter.enclosures === 'image') {
+    conditions.push(`(e.thumbnail IS NOT NULL OR ${enclosureTypeCondition(`'image/%'`)})`);
+  } else if (filter.enclosures === 'media') {
+    conditions.push(enclosureTypeCondition(`'audio/%'`, `'video/%'`));
+  }
+
+  return {
+    sql: conditions.map(condition => `AND ${condition}`).join('\n      '),
+    params,
+  };
+}
+
+// Whether any stored enclosure's type matches one of the LIKE patterns
+function enclosureTypeCondition(...patterns: string[]): string {
+  return `EXISTS (
+      SELECT 1 FROM json_each(CASE WHEN json_valid(e.enclosures) THEN e.enclosures ELSE '[]' END) m
+      WHERE ${patterns.map(pattern => `lower(json_extract(m.value, '$.type')) LIKE ${pattern}`).join(' OR ')}
+    )`;
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function uniqueSorted(values: string[]): string[] {
+  return [...new Set(values)].sort();
+}
+
+// Escape LIKE wildcards so user input is matched literally
+function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
@@ -1,12 +1,22 @@
 // RSS/Atom Feed Generator
-import { Env, EntryWithFeed, isSponsored } from './types';
+import { Env, EntryWithFeed, Feed, ParsedEnclosure, isSponsored } from './types';
+import { EntryFilter, appendFilterParams, buildFilterClause } from './filters';
+import { findMatchingEntries } from './search';
+import { normalizeDomain } from './domains';
+import { canonicalUrlKey } from './canonical';
+import { sanitizeHtml } from './sanitize';
+import { MAX_CONTENT_LENGTH, MAX_SUMMARY_LENGTH } from './parser';
 
 // SVG logo as data URI (orange RSS icon)
 const FEED_LOGO_SVG = `data:image/svg+xml,${encodeURIComponent(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><rect width="64" height="64" rx="8" fill="#ff6600"/><circle cx="16" cy="48" r="6" fill="#fff"/><path d="M16 24c13.255 0 24 10.745 24 24h8c0-17.673-14.327-32-32-32v8z" fill="#fff"/><path d="M16 8c22.091 0 40 17.909 40 40h8C64 21.49 42.51 0 16 0v8z" fill="#fff"/></svg>`)}`;
 
-interface FeedConfig {
+// Title and description shown in the generated feed's header
+interface FeedMeta {
   title: string;
   description: string;
+}
+
+interface FeedConfig extends FeedMeta {
   maxRank: number;
 }
 
@@ -28,24 +38,182 @@ const FEED_CONFIGS: Record<string, FeedConfig> = {
   },
 };
 
+export type FeedFormat = 'atom' | 'rss' | 'json';
+
 export interface GeneratedFeed {
   content: string;
   lastModified: string | null;  // ISO date string from newest entry
 }
 
+// An entry as rendered; collapsed items list the other entries about the same article
+interface FeedItem extends EntryWithFeed {
+  discussedBy?: EntryWithFeed[];
+}
+
+// Ranks only go up to the size of the largest tier
+const MAX_RANK = 100;
+
+// Hard cap to prevent unbounded queries (max 500 entries)
+const MAX_ENTRIES = 500;
+
+/**
+ * A rank window selecting which ranked feeds contribute to an aggregated feed.
+ * Both bounds are inclusive.
+ */
+export interface RankWindow {
+  minRank: number;
+  maxRank: number;
+  limit?: number;  // Explicit entry limit; defaults to ITEMS_PER_FEED per ranked blog
+}
+
 export async function generateFeed(
   env: Env,
   feedType: 'top100' | 'top50' | 'top25',
-  format: 'atom' | 'rss' = 'atom',
-  baseUrl?: string
+  format: FeedFormat = 'atom',
+  baseUrl?: string,
+  filter?: EntryFilter,
+  collapse = true
 ): Promise<GeneratedFeed> {
   const config = FEED_CONFIGS[feedType];
   const feedBaseUrl = baseUrl || env.BASE_URL;
+  const feedUrl = `${feedBaseUrl}/${feedType}.${format}${canonicalFilterQuery(filter, collapse)}`;
+  const window: RankWindow = { minRank: 1, maxRank: config.maxRank };
+
+  return buildFeed(env, config, window, format, feedBaseUrl, feedUrl, filter, collapse);
+}
+
+/**
+ * Generate a feed for an arbitrary rank window (served at /feed.{atom,rss,json}).
+ * The window must come from parseRankWindow so its bounds are already validated.
+ */
+export async function generateCustomFeed(
+  env: Env,
+  window: RankWindow,
+  format: FeedFormat = 'atom',
+  baseUrl?: string,
+  filter?: EntryFilter,
+  collapse = true
+): Promise<GeneratedFeed> {
+  const feedBaseUrl = baseUrl || env.BASE_URL;
+  const feedUrl = `${feedBaseUrl}/feed.${format}${canonicalRankQuery(window, filter, collapse)}`;
+  const meta: FeedMeta = window.minRank === 1
+    ? {
+        title: `Top ${window.maxRank} Hacker News Personal Blogs`,
+        description: `Aggregated feed from the top ${window.maxRank} personal blogs ranked by Hacker News performance`,
+      }
+    : {
+        title: `Hacker News Personal Blogs Ranked ${window.minRank}-${window.maxRank}`,
+        description: `Aggregated feed from the personal blogs ranked ${window.minRank} to ${window.maxRank} by Hacker News performance`,
+      };
+
+  return buildFeed(env, meta, window, format, feedBaseUrl, feedUrl, filter, collapse);
+}
+
+/**
+ * Parse and validate rank window query parameters.
+ * Accepts `maxRank=N` (ranks 1..N) or `ranks=A-B`, plus an optional `limit=N`.
+ */
+export function parseRankWindow(params: URLSearchParams): { window?: RankWindow; error?: string } {
+  const maxRankParam = params.get('maxRank');
+  const ranksParam = params.get('ranks');
+  const limitParam = params.get('limit');
+
+  if (maxRankParam !== null && ranksParam !== null) {
+    return { error: 'Use either maxRank or ranks, not both' };
+  }
+
+  let minRank = 1;
+  let maxRank = MAX_RANK;
+
+  if (ranksParam !== null) {
+    const match = ranksParam.match(/^(\d{1,3})-(\d{1,3})$/);
+    if (!match) {
+      return { error: 'ranks must be a range like 11-40' };
+    }
+    minRank = parseInt(match[1]);
+    maxRank = parseInt(match[2]);
+  } else if (maxRankParam !== null) {
+    if (!/^\d{1,3}$/.test(maxRankParam)) {
+      return { error: 'maxRank must be a number' };
+    }
+    maxRank = parseInt(maxRankParam);
+  }
+
+  if (minRank < 1 || maxRank > MAX_RANK || minRank > maxRank) {
+    return { error: `Rank window must be within 1-${MAX_RANK}` };
+  }
+
+  let limit: number | undefined;
+  if (limitParam !== null) {
+    if (!/^\d{1,4}$/.test(limitParam)) {
+      return { error: 'limit must be a number' };
+    }
+    limit = parseInt(limitParam);
+    if (limit < 1 || limit > MAX_ENTRIES) {
+      return { error: `limit must be within 1-${MAX_ENTRIES}` };
+    }
+  }
+
+  return { window: { minRank, maxRank, limit } };
+}
+
+/**
+ * Canonical query string for a rank window. Parameters are always emitted in the
+ * same order and shape so equivalent requests share a single cache key.
+ */
+export function canonicalRankQuery(window: RankWindow, filter?: EntryFilter, collapse = true): string {
+  const params = new URLSearchParams();
+  if (window.minRank === 1) {
+    params.set('maxRank', String(window.maxRank));
+  } else {
+    params.set('ranks', `${window.minRank}-${window.maxRank}`);
+  }
+  if (window.limit !== undefined) {
+    params.set('limit', String(window.limit));
+  }
+  appendFilterParams(params, filter);
+  if (!collapse) {
+    params.set('collapse', 'false');
+  }
+  return `?${params.toString()}`;
+}
+
+// Canonical query string for a filter alone ('' when there is nothing to filter)
+function canonicalFilterQuery(filter?: EntryFilter, collapse = true): string {
+  const params = new URLSearchParams();
+  appendFilterParams(params, filter);
+  if (!collapse) {
+    params.set('collapse', 'false');
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Parse the `collapse` toggle for aggregated feeds (default on).
+ * `collapse=false` lists every blog's entry separately.
+ */
+export function parseCollapse(params: URLSearchParams): { collapse?: boolean; error?: string } {
+  const value = params.get('collapse');
+  if (value === null || value === 'true' || value === '1') return { collapse: true };
+  if (value === 'false' || value === '0') return { collapse: false };
+  return { error: 'collapse must be true or false' };
+}
+
+async function buildFeed(
+  env: Env,
+  meta: FeedMeta,
+  window: RankWindow,
+  format: FeedFormat,
+  baseUrl: string,
+  feedUrl: string,
+  filter?: EntryFilter,
+  collapse = true
+): Promise<GeneratedFeed> {
   const itemsPerFeed = parseInt(env.ITEMS_PER_FEED) || 50;
+  const filterClause = buildFilterClause(filter);
   
-  // Hard cap to prevent unbounded queries (max 500 entries)
-  const MAX_ENTRIES = 500;
-  const requestedLimit = itemsPerFeed * config.maxRank;
+  const requestedLimit = window.limit ?? itemsPerFeed * (window.maxRank - window.minRank + 1);
   const actualLimit = Math.min(requestedLimit, MAX_ENTRIES);
   
   // Get recent entries from ranked feeds, excluding sponsored content at SQL level
@@ -53,43 +221,203 @@ export async function generateFeed(
     SELECT e.*, f.name as feed_name, f.rank as feed_rank
     FROM entries e
     JOIN feeds f ON e.feed_id = f.id
-    WHERE f.rank IS NOT NULL AND f.rank <= ?
+    WHERE f.rank IS NOT NULL AND f.rank >= ? AND f.rank <= ?
       AND e.title NOT LIKE '%sponsor%'
       AND e.title NOT LIKE '%SPONSOR%'
       AND e.title NOT LIKE '%Sponsor%'
       AND (e.summary IS NULL OR (e.summary NOT LIKE '%sponsor%' AND e.summary NOT LIKE '%SPONSOR%' AND e.summary NOT LIKE '%Sponsor%'))
+      ${filterClause.sql}
     ORDER BY e.published DESC NULLS LAST
     LIMIT ?
-  `).bind(config.maxRank, actualLimit).all<EntryWithFeed>();
+  `).bind(window.minRank, window.maxRank, ...filterClause.params, actualLimit).all<EntryWithFeed>();
   
   // Additional filter as second defense layer (catches content field and tags)
   const items = (entries.results || []).filter(item => !isSponsored(item));
   
+  // COLLAPSE_DUPLICATES=false turns collapsing off for every feed
+  const collapseEnabled = collapse && env.COLLAPSE_DUPLICATES !== 'false';
+  
+  return renderFeed(meta, collapseEnabled ? collapseDuplicates(items) : items, format, baseUrl, feedUrl);
+}
+
+/**
+ * Re-publish a single source blog (served at /feeds/{id-or-domain}.{atom,rss,json}).
+ * Returns null when no feed matches the given id or domain.
+ */
+export async function generateSourceFeed(
+  env: Env,
+  feedKey: string,
+  format: FeedFormat = 'atom',
+  baseUrl?: string
+): Promise<GeneratedFeed | null> {
+  const feedBaseUrl = baseUrl || env.BASE_URL;
+  const itemsPerFeed = parseInt(env.ITEMS_PER_FEED) || 50;
+  const key = normalizeDomain(feedKey);
+
+  const source = /^\d+$/.test(key)
+    ? await env.DB.prepare('SELECT id, name, url, domain FROM feeds WHERE id = ?')
+        .bind(parseInt(key)).first<Pick<Feed, 'id' | 'name' | 'url' | 'domain'>>()
+    : await env.DB.prepare(`
+        SELECT id, name, url, domain FROM feeds
+        WHERE domain = ?
+        ORDER BY rank ASC NULLS LAST, id ASC
+        LIMIT 1
+      `).bind(key).first<Pick<Feed, 'id' | 'name' | 'url' | 'domain'>>();
+
+  if (!source) {
+    return null;
+  }
+
+  const entries = await env.DB.prepare(`
+    SELECT e.*, f.name as feed_name, f.rank as feed_rank
+    FROM entries e
+    JOIN feeds f ON e.feed_id = f.id
+    WHERE e.feed_id = ?
+    ORDER BY e.published DESC NULLS LAST
+    LIMIT ?
+  `).bind(source.id, Math.min(itemsPerFeed, MAX_ENTRIES)).all<EntryWithFeed>();
+
+  // Entries are filtered when stored, but older rows may predate the sponsor filter
+  const items = (entries.results || []).filter(item => !isSponsored(item));
+
+  const meta: FeedMeta = {
+    title: source.name,
+    description: `Entries from ${source.name}${source.domain ? ` (${source.domain})` : ''}, republished by RSS Aggregator`,
+  };
+  const feedUrl = `${feedBaseUrl}/feeds/${key}.${format}`;
+
+  return renderFeed(meta, items, format, feedBaseUrl, feedUrl);
+}
+
+/**
+ * Saved-search feed (served at /search.{atom,rss,json}?q=...).
+ * Matches entries from all sources, newest first.
+ */
+export async function generateSearchFeed(
+  env: Env,
+  query: string,
+  format: FeedFormat = 'atom',
+  baseUrl?: string
+): Promise<GeneratedFeed> {
+  const feedBaseUrl = baseUrl || env.BASE_URL;
+  const itemsPerFeed = parseInt(env.ITEMS_PER_FEED) || 50;
+  const entries = await findMatchingEntries(env, query, Math.min(itemsPerFeed, MAX_ENTRIES));
+  const items = entries.filter(item => !isSponsored(item));
+
+  const meta: FeedMeta = {
+    title: `Search: ${query}`,
+    description: `Entries matching "${query}" across all aggregated blogs`,
+  };
+  const feedUrl = `${feedBaseUrl}/search.${format}?${new URLSearchParams({ q: query }).toString()}`;
+
+  return renderFeed(meta, items, format, feedBaseUrl, feedUrl);
+}
+
+/**
+ * Collapse entries pointing to the same article (e.g. a post plus linkblogs quoting it)
+ * into one item. The original post is shown when present, otherwise the best-ranked
+ * blog's entry; the others become `discussedBy`. The item keeps the position of the
+ * newest member, whose date becomes its `updated`. Only entries from different blogs
+ * are merged, and entries without a link of their own stay separate.
+ */
+function collapseDuplicates(items: EntryWithFeed[]): FeedItem[] {
+  const clusters = new Map<string, EntryWithFeed[]>();
+  for (const item of items) {
+    // Entries without a link of their own have no canonical URL
+    const key = item.canonical_url;
+    const cluster = key ? clusters.get(key) : undefined;
+    if (key && !cluster) {
+      clusters.set(key, [item]);
+    } else if (cluster && !cluster.some(other => other.feed_id === item.feed_id)) {
+      cluster.push(item);
+    } else {
+      // No link of its own, or the same blog posting twice about one article
+      clusters.set(`id:${item.id}`, [item]);
+    }
+  }
+
+  return [...clusters.entries()].map(([key, cluster]): FeedItem => {
+    if (cluster.length === 1) {
+      return cluster[0];
+    }
+
+    // Linkblog entries have a permalink of their own that differs from the target
+    const isOriginal = (item: EntryWithFeed) => !item.permalink || canonicalUrlKey(item.permalink) === key;
+    const ranked = [...cluster].sort((a, b) =>
+      Number(isOriginal(b)) - Number(isOriginal(a)) || a.feed_rank - b.feed_rank
+    );
+    const [primary, ...others] = ranked;
+
+    const dates = cluster
+      .map(item => item.updated || item.published)
+      .filter((date): date is string => !!date)
+      .sort();
+    const newest = dates.length > 0 ? dates[dates.length - 1] : null;
+
+    return { ...primary, updated: newest ?? primary.updated, discussedBy: others };
+  });
+}
+
+// HTML appended to a collapsed item's content, linking each discussing blog's post
+function discussionHtml(item: FeedItem): string {
+  if (!item.discussedBy || item.discussedBy.length === 0) {
+    return '';
+  }
+  const links = item.discussedBy.map(other =>
+    `<a href="${escapeXml(other.permalink || other.link)}">${escapeXml(other.feed_name)}</a>`
+  );
+  return `<p>Also discussed by ${links.join(', ')}</p>`;
+}
+
+function renderFeed(
+  config: FeedMeta,
+  items: FeedItem[],
+  format: FeedFormat,
+  baseUrl: string,
+  feedUrl: string
+): GeneratedFeed {
+  items = items.map(sanitizeStoredItem);
+
   // Get the newest entry's published date for Last-Modified header
   const newestDate = items.length > 0 && items[0].published 
     ? items[0].published 
     : null;
   
-  const content = format === 'rss'
-    ? generateRSS(config, items, feedBaseUrl, feedType)
-    : generateAtom(config, items, feedBaseUrl, feedType);
+  let content: string;
+  if (format === 'json') {
+    content = generateJSONFeed(config, items, baseUrl, feedUrl);
+  } else if (format === 'rss') {
+    content = generateRSS(config, items, baseUrl, feedUrl);
+  } else {
+    content = generateAtom(config, items, baseUrl, feedUrl);
+  }
   
   return { content, lastModified: newestDate };
 }
 
+// Entries stored before migration 0013 may still hold raw upstream HTML.
+// Sanitizing is idempotent, so all stored HTML is passed through again.
+function sanitizeStoredItem(item: FeedItem): FeedItem {
+  return {
+    ...item,
+    summary: item.summary ? sanitizeHtml(item.summary, item.link, MAX_SUMMARY_LENGTH) || null : null,
+    content: item.content ? sanitizeHtml(item.content, item.link, MAX_CONTENT_LENGTH) || null : null,
+  };
+}
+
 function generateAtom(
-  config: FeedConfig, 
-  items: EntryWithFeed[], 
+  config: FeedMeta, 
+  items: FeedItem[], 
   baseUrl: string,
-  feedType: string
+  feedUrl: string
 ): string {
   const now = new Date().toISOString();
-  const feedUrl = `${baseUrl}/${feedType}.atom`;
   
   const entriesXml = items.map(item => {
     const published = item.published || item.created_at;
     const updated = item.updated || published;
-    const content = escapeXml(item.content || item.summary || '');
+    const discussion = discussionHtml(item);
+    const content = escapeXml((item.content || item.summary || '') + discussion);
     const summary = escapeXml(item.summary || '');
     
     // Use permalink as primary link (blog's own URL), fallback to link
@@ -104,11 +432,21 @@ function generateAtom(
       } catch (e) {}
     }
     
+    const mediaXml = [
+      ...parseEnclosures(item).map(enclosure =>
+        `    <link href="${escapeXml(enclosure.url)}" rel="enclosure"${enclosure.type ? ` type="${escapeXml(enclosure.type)}"` : ''}${enclosure.length ? ` length="${enclosure.length}"` : ''}/>`),
+      ...(item.thumbnail ? [`    <media:thumbnail url="${escapeXml(item.thumbnail)}"/>`] : []),
+    ].join('\n');
+    
+    const relatedXml = (item.discussedBy || [])
+      .map(other => `    <link href="${escapeXml(other.permalink || other.link)}" rel="related" title="${escapeXml(other.feed_name)}"/>`)
+      .join('\n');
+    
     return `  <entry>
     <id>${escapeXml(item.id)}</id>
     <title>${escapeXml(item.title)}</title>
     <link href="${escapeXml(entryUrl)}" rel="alternate"/>
-    <published>${published}</published>
+${relatedXml ? relatedXml + '\n' : ''}${mediaXml ? mediaXml + '\n' : ''}    <published>${published}</published>
     <updated>${updated}</updated>
     <author>
       <name>${escapeXml(item.author || item.feed_name)}</name>
@@ -125,14 +463,14 @@ ${content ? `    <content type="html">${content}</content>` : ''}
   const styleScript = `<script src="https://www.rss.style/js/atom-style.js" xmlns="http://www.w3.org/1999/xhtml"></script>`;
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<feed xmlns="http://www.w3.org/2005/Atom">
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">
   ${styleScript}
-  <id>${feedUrl}</id>
+  <id>${escapeXml(feedUrl)}</id>
   <title>${escapeXml(config.title)}</title>
   <subtitle>${escapeXml(config.description)}</subtitle>
   <icon>${FEED_LOGO_SVG}</icon>
   <logo>${FEED_LOGO_SVG}</logo>
-  <link href="${feedUrl}" rel="self" type="application/atom+xml"/>
+  <link href="${escapeXml(feedUrl)}" rel="self" type="application/atom+xml"/>
   <link href="${baseUrl}/" rel="alternate" type="text/html"/>
   <updated>${now}</updated>
   <generator>RSS Aggregator (Cloudflare Workers)</generator>
@@ -141,17 +479,16 @@ ${entriesXml}
 }
 
 function generateRSS(
-  config: FeedConfig, 
-  items: EntryWithFeed[], 
+  config: FeedMeta, 
+  items: FeedItem[], 
   baseUrl: string,
-  feedType: string
+  feedUrl: string
 ): string {
   const now = new Date().toUTCString();
-  const feedUrl = `${baseUrl}/${feedType}.rss`;
   
   const itemsXml = items.map(item => {
     const pubDate = item.published ? new Date(item.published).toUTCString() : now;
-    const description = escapeXml(item.summary || item.content || '');
+    const description = escapeXml((item.summary || item.content || '') + discussionHtml(item));
     
     // Use permalink as primary link (blog's own URL), fallback to link
     // This ensures linkblogs show their own post URL, not external referenced articles
@@ -165,6 +502,16 @@ function generateRSS(
       } catch (e) {}
     }
     
+    // RSS allows a single enclosure per item; prefer audio/video for podcast apps
+    const enclosures = parseEnclosures(item);
+    const enclosure = enclosures.find(media => /^(audio|video)\//.test(media.type || '')) || enclosures[0];
+    const mediaXml = [
+      ...(enclosure
+        ? [`      <enclosure url="${escapeXml(enclosure.url)}" length="${enclosure.length || 0}" type="${escapeXml(enclosure.type || 'application/octet-stream')}"/>`]
+        : []),
+      ...(item.thumbnail ? [`      <media:thumbnail url="${escapeXml(item.thumbnail)}"/>`] : []),
+    ].join('\n');
+    
     return `    <item>
       <guid isPermaLink="false">${escapeXml(item.id)}</guid>
       <title>${escapeXml(item.title)}</title>
@@ -172,7 +519,7 @@ function generateRSS(
       <pubDate>${pubDate}</pubDate>
       <author>${escapeXml(item.author || item.feed_name)}</author>
       <source url="${escapeXml(entryUrl)}">${escapeXml(item.feed_name)}</source>
-${categoriesXml ? categoriesXml + '\n' : ''}      <description>${description}</description>
+${categoriesXml ? categoriesXml + '\n' : ''}${mediaXml ? mediaXml + '\n' : ''}      <description>${description}</description>
     </item>`;
   }).join('\n');
 
@@ -180,13 +527,13 @@ ${categoriesXml ? categoriesXml + '\n' : ''}      <description>${description}</d
   const styleScript = `<script src="https://www.rss.style/js/rss-style.js" xmlns="http://www.w3.org/1999/xhtml"></script>`;
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">
   ${styleScript}
   <channel>
     <title>${escapeXml(config.title)}</title>
     <description>${escapeXml(config.description)}</description>
     <link>${baseUrl}/</link>
-    <atom:link href="${feedUrl}" rel="self" type="application/rss+xml"/>
+    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>
     <image>
       <url>${FEED_LOGO_SVG}</url>
       <title>${escapeXml(config.title)}</title>
@@ -199,7 +546,99 @@ ${itemsXml}
 </rss>`;
 }
 
-function escapeXml(str: string): string {
+/**
+ * Generate a JSON Feed 1.1 document (https://jsonfeed.org/version/1.1).
+ * Source blog metadata is carried in the `_source` extension object on each item,
+ * including `discussed_by` for collapsed items.
+ */
+function generateJSONFeed(
+  config: FeedMeta,
+  items: FeedItem[],
+  baseUrl: string,
+  feedUrl: string
+): string {
+
+  const jsonItems = items.map(item => {
+    // Same link semantics as Atom/RSS: permalink is the blog's own post,
+    // link is the referenced article for linkblogs
+    const entryUrl = item.permalink || item.link;
+    const externalUrl = item.permalink && item.link && item.link !== item.permalink
+      ? item.link
+      : undefined;
+
+    let tags: string[] | undefined;
+    if (item.tags) {
+      try {
+        const parsed = JSON.parse(item.tags) as string[];
+        if (parsed.length > 0) tags = parsed;
+      } catch (e) {}
+    }
+
+    const attachments = parseEnclosures(item).map(enclosure => ({
+      url: enclosure.url,
+      mime_type: enclosure.type || 'application/octet-stream',
+      size_in_bytes: enclosure.length,
+    }));
+
+    const jsonItem: Record<string, unknown> = {
+      id: item.id,
+      url: entryUrl,
+      external_url: externalUrl,
+      title: item.title,
+      summary: item.summary || undefined,
+      date_published: item.published || item.created_at,
+      date_modified: item.updated || undefined,
+      authors: [{ name: item.author || item.feed_name }],
+      tags,
+      image: item.thumbnail || undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      _source: {
+        feed_name: item.feed_name,
+        feed_rank: item.feed_rank,
+        discussed_by: item.discussedBy?.map(other => ({
+          feed_name: other.feed_name,
+          feed_rank: other.feed_rank,
+          url: other.permalink || other.link,
+        })),
+      },
+    };
+
+    // Spec requires at least one of content_html / content_text
+    const html = (item.content || item.summary || '') + discussionHtml(item);
+    if (html) {
+      jsonItem.content_html = html;
+    } else {
+      jsonItem.content_text = '';
+    }
+
+    return jsonItem;
+  });
+
+  // JSON.stringify drops undefined values, so optional fields are omitted
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: config.title,
+    description: config.description,
+    home_page_url: `${baseUrl}/`,
+    feed_url: feedUrl,
+    icon: FEED_LOGO_SVG,
+    favicon: FEED_LOGO_SVG,
+    items: jsonItems,
+  }, null, 2);
+}
+
+// Stored enclosures (a JSON array); malformed values are treated as none
+function parseEnclosures(item: EntryWithFeed): ParsedEnclosure[] {
+  if (!item.enclosures) return [];
+  try {
+    const enclosures = JSON.parse(item.enclosures);
+    return Array.isArray(enclosures) ? enclosures.filter(enclosure => typeof enclosure?.url === 'string') : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function escapeXml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
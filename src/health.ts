@@ -0,0 +1,252 @@
+// Per-fetch log and source health summaries
+import { Env, FetchErrorCategory } from './types';
+
+const DEFAULT_LOG_RETENTION_DAYS = 14;
+const DEFAULT_WINDOW_DAYS = 7;
+const RECENT_ATTEMPTS = 50;
+
+// Sources are flagged when their newest entry is older than this
+const STALE_AFTER_DAYS = 30;
+// Uptime below this marks a source as degraded
+const DEGRADED_UPTIME_PERCENT = 90;
+
+export interface FetchLogRecord {
+  feedId: number;
+  status: number | null;        // HTTP status; null when no response arrived
+  durationMs: number;
+  bytes: number;
+  notModified: boolean;
+  newEntries: number;
+  errorCategory?: FetchErrorCategory;  // Unset on success
+}
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down' | 'stale' | 'unknown';
+
+export interface FeedHealth {
+  feedId: number;
+  name: string;
+  url: string;
+  rank: number | null;
+  status: HealthStatus;
+  attempts: number;
+  successes: number;
+  notModified: number;
+  uptimePercent: number | null;      // null when there were no attempts in the window
+  medianLatencyMs: number | null;    // Over successful attempts
+  lastSuccessAt: string | null;
+  hoursSinceSuccess: number | null;
+  newestEntryAt: string | null;
+  daysSinceNewestEntry: number | null;
+  errorsByCategory: Record<string, number>;
+}
+
+interface HealthRow {
+  id: number;
+  name: string;
+  url: string;
+  rank: number | null;
+  attempts: number | null;
+  successes: number | null;
+  not_modified: number | null;
+  last_success_at: string | null;
+  median_ms: number | null;
+  newest_entry_at: string | null;
+}
+
+// Record one fetch attempt; logging must never fail the fetch itself
+export async function logFetch(db: D1Database, record: FetchLogRecord): Promise<void> {
+  try {
+    await db.prepare(`
+      INSERT INTO fetch_log (feed_id, fetched_at, status, duration_ms, bytes, not_modified, new_entries, error_category)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      record.feedId,
+      new Date().toISOString(),
+      record.status,
+      record.durationMs,
+      record.bytes,
+      record.notModified ? 1 : 0,
+      record.newEntries,
+      record.errorCategory ?? null
+    ).run();
+  } catch (error) {
+    console.error(`Failed to log fetch for feed ${record.feedId}:`, error);
+  }
+}
+
+// Drop log rows older than FETCH_LOG_RETENTION_DAYS (called daily by cron)
+export async function pruneFetchLog(env: Env): Promise<{ deleted: number }> {
+  const days = logRetentionDays(env);
+  const cutoff = new Date(Date.now() - days * 86400000).toISOString();
+  const result = await env.DB.prepare('DELETE FROM fetch_log WHERE fetched_at < ?').bind(cutoff).run();
+  return { deleted: result.meta.changes || 0 };
+}
+
+/**
+ * Handle GET /api/health[?days=N] - health summary of every enabled source,
+ * least healthy first.
+ */
+export async function handleHealth(request: Request, env: Env): Promise<Response> {
+  const { days, error } = parseWindowDays(new URL(request.url).searchParams, env);
+  if (days === undefined) {
+    return Response.json({ error }, { status: 400 });
+  }
+
+  const feeds = await summarizeHealth(env.DB, days);
+  const counts: Record<HealthStatus, number> = { healthy: 0, degraded: 0, down: 0, stale: 0, unknown: 0 };
+  for (const feed of feeds) counts[feed.status]++;
+
+  const severity: HealthStatus[] = ['down', 'degraded', 'stale', 'unknown', 'healthy'];
+  feeds.sort((a, b) =>
+    severity.indexOf(a.status) - severity.indexOf(b.status) ||
+    (a.uptimePercent ?? 100) - (b.uptimePercent ?? 100)
+  );
+
+  return Response.json({ windowDays: days, counts, feeds });
+}
+
+/**
+ * Handle GET /api/feeds/{id}/health[?days=N] - one source's summary plus its
+ * most recent fetch attempts.
+ */
+export async function handleFeedHealth(request: Request, env: Env, feedId: number): Promise<Response> {
+  const { days, error } = parseWindowDays(new URL(request.url).searchParams, env);
+  if (days === undefined) {
+    return Response.json({ error }, { status: 400 });
+  }
+
+  const [health] = await summarizeHealth(env.DB, days, feedId);
+  if (!health) {
+    return Response.json({ error: 'Feed not found' }, { status: 404 });
+  }
+
+  const recent = await env.DB.prepare(`
+    SELECT fetched_at, status, duration_ms, bytes, not_modified, new_entries, error_category
+    FROM fetch_log
+    WHERE feed_id = ?
+    ORDER BY fetched_at DESC, id DESC
+    LIMIT ?
+  `).bind(feedId, RECENT_ATTEMPTS).all();
+
+  return Response.json({ windowDays: days, health, recent: recent.results || [] });
+}
+
+async function summarizeHealth(db: D1Database, days: number, feedId?: number): Promise<FeedHealth[]> {
+  const since = new Date(Date.now() - days * 86400000).toISOString();
+  const id = feedId ?? null;
+
+  // SQLite has no MEDIAN; average the middle one or two rows of each feed's ordered latencies
+  const [rows, errors] = await Promise.all([
+    db.prepare(`
+      WITH window_log AS (
+        SELECT * FROM fetch_log WHERE fetched_at >= ?
+      ),
+      ranked AS (
+        SELECT feed_id, duration_ms,
+          ROW_NUMBER() OVER (PARTITION BY feed_id ORDER BY duration_ms) AS rn,
+          COUNT(*) OVER (PARTITION BY feed_id) AS cnt
+        FROM window_log
+        WHERE error_category IS NULL
+      ),
+      medians AS (
+        SELECT feed_id, AVG(duration_ms) AS median_ms
+        FROM ranked
+        WHERE rn IN ((cnt + 1) / 2, (cnt + 2) / 2)
+        GROUP BY feed_id
+      ),
+      totals AS (
+        SELECT feed_id,
+          COUNT(*) AS attempts,
+          SUM(error_category IS NULL) AS successes,
+          SUM(not_modified) AS not_modified,
+          MAX(CASE WHEN error_category IS NULL THEN fetched_at END) AS last_success_at
+        FROM window_log
+        GROUP BY feed_id
+      )
+      SELECT f.id, f.name, f.url, f.rank,
+        t.attempts, t.successes, t.not_modified, t.last_success_at, m.median_ms,
+        (SELECT MAX(published) FROM entries e WHERE e.feed_id = f.id) AS newest_entry_at
+      FROM feeds f
+      LEFT JOIN totals t ON t.feed_id = f.id
+      LEFT JOIN medians m ON m.feed_id = f.id
+      WHERE f.url IS NOT NULL AND (? IS NULL OR f.id = ?)
+        AND (? IS NOT NULL OR f.disabled = 0)
+      ORDER BY f.rank ASC NULLS LAST, f.id ASC
+    `).bind(since, id, id, id).all<HealthRow>(),
+    db.prepare(`
+      SELECT feed_id, error_category AS category, COUNT(*) AS count
+      FROM fetch_log
+      WHERE fetched_at >= ? AND error_category IS NOT NULL AND (? IS NULL OR feed_id = ?)
+      GROUP BY feed_id, error_category
+    `).bind(since, id, id).all<{feed_id: number; category: string; count: number}>(),
+  ]);
+
+  const errorsByFeed = new Map<number, Record<string, number>>();
+  for (const row of errors.results || []) {
+    const byCategory = errorsByFeed.get(row.feed_id) || {};
+    byCategory[row.category] = row.count;
+    errorsByFeed.set(row.feed_id, byCategory);
+  }
+
+  const now = Date.now();
+  return (rows.results || []).map(row => {
+    const attempts = row.attempts ?? 0;
+    const successes = row.successes ?? 0;
+    const uptimePercent = attempts > 0 ? Math.round((successes / attempts) * 1000) / 10 : null;
+    const hoursSinceSuccess = row.last_success_at
+      ? Math.round((now - new Date(row.last_success_at).getTime()) / 360000) / 10
+      : null;
+    const daysSinceNewestEntry = row.newest_entry_at
+      ? Math.floor((now - new Date(row.newest_entry_at).getTime()) / 86400000)
+      : null;
+
+    return {
+      feedId: row.id,
+      name: row.name,
+      url: row.url,
+      rank: row.rank,
+      status: healthStatus(attempts, successes, uptimePercent, daysSinceNewestEntry),
+      attempts,
+      successes,
+      notModified: row.not_modified ?? 0,
+      uptimePercent,
+      medianLatencyMs: row.median_ms !== null ? Math.round(row.median_ms) : null,
+      lastSuccessAt: row.last_success_at,
+      hoursSinceSuccess,
+      newestEntryAt: row.newest_entry_at,
+      daysSinceNewestEntry,
+      errorsByCategory: errorsByFeed.get(row.id) || {},
+    };
+  });
+}
+
+function healthStatus(
+  attempts: number,
+  successes: number,
+  uptimePercent: number | null,
+  daysSinceNewestEntry: number | null
+): HealthStatus {
+  if (attempts === 0 || uptimePercent === null) return 'unknown';
+  if (successes === 0) return 'down';
+  if (uptimePercent < DEGRADED_UPTIME_PERCENT) return 'degraded';
+  if (daysSinceNewestEntry === null || daysSinceNewestEntry > STALE_AFTER_DAYS) return 'stale';
+  return 'healthy';
+}
+
+// ?days= defaults to a week and can't reach past the log's retention
+function parseWindowDays(params: URLSearchParams, env: Env): { days?: number; error?: string } {
+  const value = params.get('days');
+  if (value === null) {
+    return { days: Math.min(DEFAULT_WINDOW_DAYS, logRetentionDays(env)) };
+  }
+  const days = Number(value);
+  const max = logRetentionDays(env);
+  if (!Number.isInteger(days) || days < 1 || days > max) {
+    return { error: `days must be an integer within 1-${max}` };
+  }
+  return { days };
+}
+
+function logRetentionDays(env: Env): number {
+  return parseInt(env.FETCH_LOG_RETENTION_DAYS || '') || DEFAULT_LOG_RETENTION_DAYS;
+}
@@ -1,8 +1,43 @@
 // Main Worker Entry Point
-import { Env, FeedFetchMessage } from './types';
-import { fetchFeed, queueAllFeeds, pruneOldEntries } from './fetcher';
-import { generateFeed, GeneratedFeed } from './generator';
+import { Env, FeedFetchMessage, DeadLetterMessage } from './types';
+import { fetchFeed, queueAllFeeds, queueQuarantineProbes, pruneOldEntries } from './fetcher';
+import {
+  generateFeed,
+  generateCustomFeed,
+  generateSourceFeed,
+  generateSearchFeed,
+  parseRankWindow,
+  parseCollapse,
+  canonicalRankQuery,
+  GeneratedFeed,
+  FeedFormat,
+  RankWindow,
+} from './generator';
+import { parseEntryFilter, normalizedTagSql, jsonArraySql } from './filters';
+import { parseSearchParams, searchEntries, SearchParams } from './search';
 import { generateLandingPage } from './landing';
+import { handleFeedsApi } from './admin';
+import { generateOPML, importOPML } from './opml';
+import { handleRankImport, handleRankHistory } from './ranks';
+import { handleDiscover } from './discovery';
+import { handleQuarantineApi } from './quarantine';
+import { retryPolicy } from './errors';
+import { handleHealth, pruneFetchLog } from './health';
+import { checkFeedAlerts } from './alerts';
+import { redirectStats } from './redirects';
+import { DEAD_LETTER_QUEUE, recordDeadLetters, sendToDeadLetter, handleFailuresApi } from './deadletter';
+
+const FEED_ROUTE = /^\/(top100|top50|top25)\.(xml|atom|rss|json)$/;
+const CUSTOM_FEED_ROUTE = /^\/feed\.(xml|atom|rss|json)$/;
+const SEARCH_FEED_ROUTE = /^\/search\.(xml|atom|rss|json)$/;
+const SOURCE_FEED_ROUTE = /^\/feeds\/([A-Za-z0-9.-]+)\.(xml|atom|rss|json)$/;
+
+const FEED_EXTENSIONS: Record<string, FeedFormat> = {
+  xml: 'atom',
+  atom: 'atom',
+  rss: 'rss',
+  json: 'json',
+};
 
 // Security headers for all responses
 function addSecurityHeaders(response: Response): Response {
@@ -79,44 +114,91 @@ export default {
         }));
       }
 
-      // Atom feeds (.xml and .atom routes)
-      if (path === '/top100.xml' || path === '/top100.atom') {
-        ctx.waitUntil(trackSubscriber(env, path, request));
-        const baseUrl = new URL(request.url).origin;
-        const feed = await generateFeed(env, 'top100', 'atom', baseUrl);
-        return feedResponse(feed, 'atom');
-      }
-      if (path === '/top50.xml' || path === '/top50.atom') {
+      // Aggregated feeds: /top{100,50,25}.{xml,atom,rss,json}
+      // .xml is kept as an alias for Atom (original feed URLs)
+      const feedMatch = path.match(FEED_ROUTE);
+      if (feedMatch) {
+        const { filter, error } = parseEntryFilter(url.searchParams);
+        if (!filter) {
+          return addSecurityHeaders(new Response(error, { status: 400 }));
+        }
+        const { collapse, error: collapseError } = parseCollapse(url.searchParams);
+        if (collapse === undefined) {
+          return addSecurityHeaders(new Response(collapseError, { status: 400 }));
+        }
         ctx.waitUntil(trackSubscriber(env, path, request));
+        const feedType = feedMatch[1] as 'top100' | 'top50' | 'top25';
+        const format = FEED_EXTENSIONS[feedMatch[2]];
         const baseUrl = new URL(request.url).origin;
-        const feed = await generateFeed(env, 'top50', 'atom', baseUrl);
-        return feedResponse(feed, 'atom');
+        const feed = await generateFeed(env, feedType, format, baseUrl, filter, collapse);
+        return feedResponse(feed, format);
       }
-      if (path === '/top25.xml' || path === '/top25.atom') {
-        ctx.waitUntil(trackSubscriber(env, path, request));
-        const baseUrl = new URL(request.url).origin;
-        const feed = await generateFeed(env, 'top25', 'atom', baseUrl);
-        return feedResponse(feed, 'atom');
+
+      // Custom rank window feeds: /feed.{atom,rss,json}?maxRank=10 or ?ranks=11-40[&limit=N]
+      const customMatch = path.match(CUSTOM_FEED_ROUTE);
+      if (customMatch) {
+        const { window, error } = parseRankWindow(url.searchParams);
+        if (!window) {
+          return addSecurityHeaders(new Response(error, { status: 400 }));
+        }
+        const { filter, error: filterError } = parseEntryFilter(url.searchParams);
+        if (!filter) {
+          return addSecurityHeaders(new Response(filterError, { status: 400 }));
+        }
+        const { collapse, error: collapseError } = parseCollapse(url.searchParams);
+        if (collapse === undefined) {
+          return addSecurityHeaders(new Response(collapseError, { status: 400 }));
+        }
+        // Redirect equivalent queries to one canonical URL so caches and readers share it
+        const canonicalQuery = canonicalRankQuery(window, filter, collapse);
+        if (url.search !== canonicalQuery) {
+          return addSecurityHeaders(Response.redirect(`${url.origin}${path}${canonicalQuery}`, 301));
+        }
+        ctx.waitUntil(trackSubscriber(env, `${path}${canonicalQuery}`, request));
+        const format = FEED_EXTENSIONS[customMatch[1]];
+        const feed = await generateCustomFeed(env, window, format, url.origin, filter, collapse);
+        return feedResponse(feed, format);
       }
 
-      // RSS feeds
-      if (path === '/top100.rss') {
+      // Per-blog passthrough feeds: /feeds/{id-or-domain}.{atom,rss,json}
+      const sourceMatch = path.match(SOURCE_FEED_ROUTE);
+      if (sourceMatch) {
+        const format = FEED_EXTENSIONS[sourceMatch[2]];
+        const feed = await generateSourceFeed(env, sourceMatch[1], format, url.origin);
+        if (!feed) {
+          return addSecurityHeaders(new Response('Feed not found', { status: 404 }));
+        }
         ctx.waitUntil(trackSubscriber(env, path, request));
-        const baseUrl = new URL(request.url).origin;
-        const feed = await generateFeed(env, 'top100', 'rss', baseUrl);
-        return feedResponse(feed, 'rss');
+        return feedResponse(feed, format);
       }
-      if (path === '/top50.rss') {
+
+      // Saved-search feeds: /search.{atom,rss,json}?q=...
+      const searchFeedMatch = path.match(SEARCH_FEED_ROUTE);
+      if (searchFeedMatch) {
+        const { search, error } = parseSearchParams(url.searchParams);
+        if (!search) {
+          return addSecurityHeaders(new Response(error, { status: 400 }));
+        }
         ctx.waitUntil(trackSubscriber(env, path, request));
-        const baseUrl = new URL(request.url).origin;
-        const feed = await generateFeed(env, 'top50', 'rss', baseUrl);
-        return feedResponse(feed, 'rss');
+        const format = FEED_EXTENSIONS[searchFeedMatch[1]];
+        const feed = await generateSearchFeed(env, search.query, format, url.origin);
+        return feedResponse(feed, format);
       }
-      if (path === '/top25.rss') {
-        ctx.waitUntil(trackSubscriber(env, path, request));
-        const baseUrl = new URL(request.url).origin;
-        const feed = await generateFeed(env, 'top25', 'rss', baseUrl);
-        return feedResponse(feed, 'rss');
+
+      // OPML export of ranked sources: /feeds.opml[?maxRank=25 | ?ranks=11-40]
+      if (path === '/feeds.opml') {
+        const { window, error } = parseRankWindow(url.searchParams);
+        if (!window) {
+          return addSecurityHeaders(new Response(error, { status: 400 }));
+        }
+        const opml = await generateOPML(env, window, url.origin);
+        return addSecurityHeaders(new Response(opml, {
+          headers: {
+            'Content-Type': 'text/x-opml; charset=utf-8',
+            'Cache-Control': 'public, max-age=3600', // 1 hour cache
+            'Access-Control-Allow-Origin': '*',
+          },
+        }));
       }
 
       // API endpoints
@@ -125,6 +207,24 @@ export default {
         return addSecurityHeaders(stats);
       }
       
+      if (path === '/api/tags') {
+        const { window, error } = parseRankWindow(url.searchParams);
+        if (!window) {
+          return addSecurityHeaders(new Response(error, { status: 400 }));
+        }
+        const tags = await handleTags(env, window);
+        return addSecurityHeaders(tags);
+      }
+      
+      if (path === '/api/search') {
+        const { search, error } = parseSearchParams(url.searchParams);
+        if (!search) {
+          return addSecurityHeaders(Response.json({ error }, { status: 400 }));
+        }
+        const results = await handleSearch(env, search);
+        return addSecurityHeaders(results);
+      }
+      
       if (path === '/api/subscribers') {
         // Protected endpoint - requires admin token
         const authError = validateAdminToken(request, env);
@@ -133,11 +233,79 @@ export default {
         return addSecurityHeaders(subscribers);
       }
       
+      if (path === '/api/feeds/import-opml' && request.method === 'POST') {
+        // Protected endpoint - requires admin token
+        const authError = validateAdminToken(request, env);
+        if (authError) return addSecurityHeaders(authError);
+        const { result, error } = await importOPML(env, await request.text());
+        if (!result) {
+          return addSecurityHeaders(Response.json({ error }, { status: 400 }));
+        }
+        return addSecurityHeaders(Response.json(result));
+      }
+      
+      if (path === '/api/feeds' || path.startsWith('/api/feeds/')) {
+        // Protected endpoint - requires admin token
+        const authError = validateAdminToken(request, env);
+        if (authError) return addSecurityHeaders(authError);
+        const response = await handleFeedsApi(request, env, path);
+        return addSecurityHeaders(response);
+      }
+      
+      if (path === '/api/ranks' && request.method === 'POST') {
+        // Protected endpoint - requires admin token
+        const authError = validateAdminToken(request, env);
+        if (authError) return addSecurityHeaders(authError);
+        const response = await handleRankImport(request, env);
+        return addSecurityHeaders(response);
+      }
+      
+      if (path === '/api/ranks/history') {
+        // Protected endpoint - requires admin token
+        const authError = validateAdminToken(request, env);
+        if (authError) return addSecurityHeaders(authError);
+        const response = await handleRankHistory(request, env);
+        return addSecurityHeaders(response);
+      }
+      
+      if (path === '/api/quarantine' || path.startsWith('/api/quarantine/')) {
+        // Protected endpoint - requires admin token
+        const authError = validateAdminToken(request, env);
+        if (authError) return addSecurityHeaders(authError);
+        const response = await handleQuarantineApi(request, env, path);
+        return addSecurityHeaders(response);
+      }
+      
+      if (path === '/api/health') {
+        // Protected endpoint - requires admin token
+        const authError = validateAdminToken(request, env);
+        if (authError) return addSecurityHeaders(authError);
+        const response = await handleHealth(request, env);
+        return addSecurityHeaders(response);
+      }
+      
+      if (path === '/api/failures' || path.startsWith('/api/failures/')) {
+        // Protected endpoint - requires admin token
+        const authError = validateAdminToken(request, env);
+        if (authError) return addSecurityHeaders(authError);
+        const response = await handleFailuresApi(request, env, path);
+        return addSecurityHeaders(response);
+      }
+      
+      if (path === '/api/discover') {
+        // Protected endpoint - requires admin token (triggers upstream fetches)
+        const authError = validateAdminToken(request, env);
+        if (authError) return addSecurityHeaders(authError);
+        const response = await handleDiscover(request, env);
+        return addSecurityHeaders(response);
+      }
+      
       if (path === '/api/trigger-fetch' && request.method === 'POST') {
         // Protected endpoint - requires admin token
         const authError = validateAdminToken(request, env);
         if (authError) return addSecurityHeaders(authError);
-        const result = await queueAllFeeds(env);
+        // Manual trigger bypasses the adaptive schedule
+        const result = await queueAllFeeds(env, true);
         return addSecurityHeaders(Response.json(result));
       }
 
@@ -158,15 +326,29 @@ export default {
     console.log('Cron triggered:', event.cron);
     
     try {
-      // Queue all feeds for fetching
+      // Queue feeds whose next_fetch_at has passed
       const queueResult = await queueAllFeeds(env);
       console.log(`Queued ${queueResult.queued} feeds for fetching`);
       
+      // Probe quarantined feeds so they recover automatically
+      const probeResult = await queueQuarantineProbes(env);
+      if (probeResult.queued > 0) {
+        console.log(`Queued ${probeResult.queued} quarantine probes`);
+      }
+      
+      // Notify webhooks about stale, failing or moved sources
+      const alertResult = await checkFeedAlerts(env);
+      if (alertResult.sent > 0 || alertResult.resolved > 0) {
+        console.log(`Sent ${alertResult.sent} feed alerts (${alertResult.resolved} resolved)`);
+      }
+      
       // Prune old entries (run once per day, check if hour is 0)
       const hour = new Date().getUTCHours();
       if (hour === 0) {
         const pruneResult = await pruneOldEntries(env);
         console.log(`Pruned ${pruneResult.deleted} old entries`);
+        const logResult = await pruneFetchLog(env);
+        console.log(`Pruned ${logResult.deleted} fetch log rows`);
       }
     } catch (error) {
       console.error('Cron error:', error);
@@ -174,24 +356,36 @@ export default {
   },
 
   // Queue consumer handler
-  async queue(batch: MessageBatch<FeedFetchMessage>, env: Env): Promise<void> {
+  async queue(batch: MessageBatch<FeedFetchMessage | DeadLetterMessage>, env: Env): Promise<void> {
+    if (batch.queue === DEAD_LETTER_QUEUE) {
+      await recordDeadLetters(batch as MessageBatch<DeadLetterMessage>, env);
+      return;
+    }
+    
     console.log(`Processing batch of ${batch.messages.length} feeds`);
     
     for (const message of batch.messages) {
       try {
-        const result = await fetchFeed(message.body, env);
+        const result = await fetchFeed(message.body, env, message.attempts);
         
         if (result.success) {
-          console.log(`✓ ${message.body.feedName}: ${result.newEntries} new entries`);
+          console.log(`✓ ${message.body.feedName}: ${result.newEntries} new, ${result.updatedEntries} updated entries`);
+          message.ack();
+          continue;
+        }
+        
+        const category = result.errorCategory ?? 'unknown';
+        const decision = retryPolicy(category, message.attempts, result.retryAfterSeconds);
+        console.log(`✗ ${message.body.feedName} [${category}]: ${result.error} -> ${decision.action}`);
+        
+        if (decision.action === 'retry') {
+          message.retry({ delaySeconds: decision.delaySeconds });
+        } else if (decision.action === 'dead_letter') {
+          // Needs an admin to fix the feed; retrying won't help
+          await sendToDeadLetter(env, message, result);
           message.ack();
         } else {
-          console.log(`✗ ${message.body.feedName}: ${result.error}`);
-          // Retry on transient errors
-          if (result.error?.includes('timeout') || result.error?.includes('5')) {
-            message.retry();
-          } else {
-            message.ack(); // Don't retry on permanent failures
-          }
+          message.ack(); // Permanent failure; the next scheduled fetch tries again
         }
       } catch (error) {
         console.error(`Error processing ${message.body.feedName}:`, error);
@@ -209,9 +403,11 @@ async function generateETag(content: string): Promise<string> {
   return `"${hashArray.slice(0, 16).map(b => b.toString(16).padStart(2, '0')).join('')}"`;
 }
 
-async function feedResponse(feed: GeneratedFeed, format: 'atom' | 'rss'): Promise<Response> {
+async function feedResponse(feed: GeneratedFeed, format: FeedFormat): Promise<Response> {
   // Use text/xml for browser XSL styling compatibility (per rss.style requirements)
-  const contentType = 'text/xml; charset=utf-8';
+  const contentType = format === 'json'
+    ? 'application/feed+json; charset=utf-8'
+    : 'text/xml; charset=utf-8';
   
   // Generate ETag from content
   const etag = await generateETag(feed.content);
@@ -232,7 +428,7 @@ async function feedResponse(feed: GeneratedFeed, format: 'atom' | 'rss'): Promis
 }
 
 async function handleStats(env: Env): Promise<Response> {
-  const [feedCount, entryCount, rankedFeeds, recentEntries] = await Promise.all([
+  const [feedCount, entryCount, rankedFeeds, recentEntries, quarantinedFeeds, errorCategories, redirects] = await Promise.all([
     env.DB.prepare('SELECT COUNT(*) as count FROM feeds').first<{count: number}>(),
     env.DB.prepare('SELECT COUNT(*) as count FROM entries').first<{count: number}>(),
     env.DB.prepare('SELECT COUNT(*) as count FROM feeds WHERE rank IS NOT NULL').first<{count: number}>(),
@@ -240,12 +436,25 @@ async function handleStats(env: Env): Promise<Response> {
       SELECT COUNT(*) as count FROM entries 
       WHERE created_at > datetime('now', '-24 hours')
     `).first<{count: number}>(),
+    env.DB.prepare('SELECT COUNT(*) as count FROM feeds WHERE quarantined_at IS NOT NULL').first<{count: number}>(),
+    env.DB.prepare(`
+      SELECT last_error_category as category, COUNT(*) as count
+      FROM feeds
+      WHERE last_error_category IS NOT NULL
+      GROUP BY last_error_category
+    `).all<{category: string; count: number}>(),
+    redirectStats(env),
   ]);
 
   const data = {
     feeds: {
       total: feedCount?.count || 0,
       ranked: rankedFeeds?.count || 0,
+      quarantined: quarantinedFeeds?.count || 0,
+      failingByCategory: Object.fromEntries(
+        (errorCategories.results || []).map(row => [row.category, row.count])
+      ),
+      redirects,
     },
     entries: {
       total: entryCount?.count || 0,
@@ -262,6 +471,52 @@ async function handleStats(env: Env): Promise<Response> {
   });
 }
 
+// Tag frequencies across entries from feeds in the rank window (default: top 100)
+async function handleTags(env: Env, window: RankWindow): Promise<Response> {
+  const result = await env.DB.prepare(`
+    SELECT ${normalizedTagSql('t.value')} as tag, COUNT(*) as count
+    FROM entries e
+    JOIN feeds f ON e.feed_id = f.id,
+         ${jsonArraySql('e.tags')} t
+    WHERE f.rank IS NOT NULL AND f.rank >= ? AND f.rank <= ?
+      AND e.tags IS NOT NULL
+      AND ${normalizedTagSql('t.value')} != ''
+    GROUP BY tag
+    ORDER BY count DESC, tag ASC
+    LIMIT ?
+  `).bind(window.minRank, window.maxRank, window.limit ?? 100).all<{tag: string; count: number}>();
+
+  return new Response(JSON.stringify({
+    ranks: { min: window.minRank, max: window.maxRank },
+    tags: result.results || [],
+    generatedAt: new Date().toISOString(),
+  }), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=300',  // 5 minute cache
+    },
+  });
+}
+
+async function handleSearch(env: Env, search: SearchParams): Promise<Response> {
+  const { total, hits } = await searchEntries(env, search);
+  const nextOffset = search.offset + hits.length;
+
+  return new Response(JSON.stringify({
+    query: search.query,
+    total,
+    limit: search.limit,
+    offset: search.offset,
+    nextOffset: nextOffset < total ? nextOffset : null,
+    results: hits,
+  }), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=60',  // 1 minute cache
+    },
+  });
+}
+
 async function handleSubscribers(env: Env): Promise<Response> {
   const [statsResult, recentResult, topAgentsResult] = await Promise.all([
     // Per-feed stats
@@ -38,6 +38,9 @@ export async function generateLandingPage(env: Env): Promise<string> {
   <link rel="alternate" type="application/rss+xml" title="Top 100 HN Blogs (RSS)" href="/top100.rss">
   <link rel="alternate" type="application/rss+xml" title="Top 50 HN Blogs (RSS)" href="/top50.rss">
   <link rel="alternate" type="application/rss+xml" title="Top 25 HN Blogs (RSS)" href="/top25.rss">
+  <link rel="alternate" type="application/feed+json" title="Top 100 HN Blogs (JSON Feed)" href="/top100.json">
+  <link rel="alternate" type="application/feed+json" title="Top 50 HN Blogs (JSON Feed)" href="/top50.json">
+  <link rel="alternate" type="application/feed+json" title="Top 25 HN Blogs (JSON Feed)" href="/top25.json">
   
   <!-- JSON-LD Schema -->
   <script type="application/ld+json">
@@ -131,6 +134,7 @@ export async function generateLandingPage(env: Env): Promise<string> {
         <p class="feed-links">
           <a href="/top25.xml">Atom</a>
           <a href="/top25.rss">RSS</a>
+          <a href="/top25.json">JSON</a>
         </p>
       </article>
       <article class="feed">
@@ -138,6 +142,7 @@ export async function generateLandingPage(env: Env): Promise<string> {
         <p class="feed-links">
           <a href="/top50.xml">Atom</a>
           <a href="/top50.rss">RSS</a>
+          <a href="/top50.json">JSON</a>
         </p>
       </article>
       <article class="feed">
@@ -145,6 +150,7 @@ export async function generateLandingPage(env: Env): Promise<string> {
         <p class="feed-links">
           <a href="/top100.xml">Atom</a>
           <a href="/top100.rss">RSS</a>
+          <a href="/top100.json">JSON</a>
         </p>
       </article>
     </div>
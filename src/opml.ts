@@ -0,0 +1,241 @@
+// OPML export and import of the source list
+import { XMLParser } from 'fast-xml-parser';
+import { Env, Feed } from './types';
+import { RankWindow, escapeXml } from './generator';
+import { isValidFeedUrl, sendFeedBatches } from './fetcher';
+import { extractDomain } from './domains';
+
+// Guard against huge uploads; a thousand outlines is far beyond a real reading list
+const MAX_OPML_BYTES = 1024 * 1024;
+const MAX_OUTLINES = 1000;
+// Statements per D1 batch
+const BATCH_SIZE = 100;
+const MAX_NAME_LENGTH = 200;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  isArray: (name) => name === 'outline',
+});
+
+export interface OpmlImportResult {
+  created: { id: number; name: string; url: string }[];
+  updated: { id: number; name: string; url: string }[];
+  skipped: { url: string; reason: string; feedId?: number }[];
+}
+
+interface OpmlOutline {
+  name: string;
+  url: string;
+}
+
+/**
+ * Export ranked, enabled sources in the rank window as OPML 2.0.
+ */
+export async function generateOPML(env: Env, window: RankWindow, baseUrl: string): Promise<string> {
+  const feeds = await env.DB.prepare(`
+    SELECT id, name, url, domain, rank
+    FROM feeds
+    WHERE rank IS NOT NULL AND rank >= ? AND rank <= ? AND disabled = 0
+    ORDER BY rank ASC, id ASC
+  `).bind(window.minRank, window.maxRank).all<Pick<Feed, 'id' | 'name' | 'url' | 'domain' | 'rank'>>();
+
+  const title = window.minRank === 1
+    ? `Top ${window.maxRank} Hacker News Personal Blogs`
+    : `Hacker News Personal Blogs Ranked ${window.minRank}-${window.maxRank}`;
+
+  const outlines = (feeds.results || []).map(feed => {
+    // The homepage isn't stored; the feed's origin is the best available guess
+    const htmlUrl = new URL(feed.url).origin + '/';
+    return `    <outline type="rss" text="${escapeXml(feed.name)}" title="${escapeXml(feed.name)}" xmlUrl="${escapeXml(feed.url)}" htmlUrl="${escapeXml(htmlUrl)}" category="rank/${feed.rank}"/>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(title)}</title>
+    <dateCreated>${new Date().toUTCString()}</dateCreated>
+    <docs>http://opml.org/spec2.opml</docs>
+    <ownerId>${escapeXml(baseUrl)}/</ownerId>
+  </head>
+  <body>
+${outlines}
+  </body>
+</opml>`;
+}
+
+/**
+ * Import sources from an OPML document.
+ * Outlines matching an existing feed by URL update its name; outlines whose domain
+ * is already registered under a different URL are skipped rather than duplicated.
+ */
+export async function importOPML(env: Env, opml: string): Promise<{ result?: OpmlImportResult; error?: string }> {
+  if (opml.length > MAX_OPML_BYTES) {
+    return { error: `OPML must be at most ${MAX_OPML_BYTES} bytes` };
+  }
+
+  let outlines: OpmlOutline[];
+  try {
+    outlines = extractOutlines(parser.parse(opml));
+  } catch {
+    return { error: 'Invalid OPML document' };
+  }
+  if (outlines.length === 0) {
+    return { error: 'No feed outlines (xmlUrl) found' };
+  }
+  if (outlines.length > MAX_OUTLINES) {
+    return { error: `OPML may contain at most ${MAX_OUTLINES} feeds` };
+  }
+
+  const result: OpmlImportResult = { created: [], updated: [], skipped: [] };
+  const seen = new Set<string>();
+
+  // Match outlines in memory instead of querying once per outline
+  const known = await loadKnownFeeds(env.DB);
+  const now = new Date().toISOString();
+  const updates: D1PreparedStatement[] = [];
+  const inserts: { outline: OpmlOutline; statement: D1PreparedStatement }[] = [];
+
+  for (const outline of outlines) {
+    if (seen.has(outline.url)) {
+      result.skipped.push({ url: outline.url, reason: 'Duplicate outline in OPML' });
+      continue;
+    }
+    seen.add(outline.url);
+
+    if (!isValidFeedUrl(outline.url)) {
+      result.skipped.push({ url: outline.url, reason: 'Invalid or blocked URL' });
+      continue;
+    }
+
+    const domain = extractDomain(outline.url);
+    const existing = known.match(outline.url, domain);
+
+    if (existing && existing.url !== outline.url) {
+      result.skipped.push({
+        url: outline.url,
+        reason: `Domain already registered as ${existing.url}`,
+        feedId: existing.id || undefined,
+      });
+      continue;
+    }
+
+    if (existing) {
+      if (existing.name === outline.name) {
+        result.skipped.push({ url: outline.url, reason: 'Unchanged', feedId: existing.id });
+        continue;
+      }
+      updates.push(env.DB.prepare('UPDATE feeds SET name = ?, updated_at = ? WHERE id = ?')
+        .bind(outline.name, now, existing.id));
+      result.updated.push({ id: existing.id, name: outline.name, url: outline.url });
+      continue;
+    }
+
+    // Later outlines on the same domain must see this one as registered
+    known.add({ id: 0, name: outline.name, url: outline.url, domain });
+    inserts.push({
+      outline,
+      statement: env.DB.prepare(`
+        INSERT OR IGNORE INTO feeds (name, url, domain)
+        VALUES (?, ?, ?)
+        RETURNING id, name, url, etag, last_modified
+      `).bind(outline.name, outline.url, domain),
+    });
+  }
+
+  for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+    await env.DB.batch(updates.slice(i, i + BATCH_SIZE));
+  }
+
+  const createdFeeds: CreatedFeed[] = [];
+  for (let i = 0; i < inserts.length; i += BATCH_SIZE) {
+    const chunk = inserts.slice(i, i + BATCH_SIZE);
+    const results = await env.DB.batch<CreatedFeed>(chunk.map(insert => insert.statement));
+    chunk.forEach(({ outline }, index) => {
+      const feed = results[index]?.results?.[0];
+      if (feed) {
+        createdFeeds.push(feed);
+        result.created.push({ id: feed.id, name: feed.name, url: feed.url });
+      } else {
+        result.skipped.push({ url: outline.url, reason: 'Insert failed' });
+      }
+    });
+  }
+
+  // Fetch new sources right away instead of waiting for the next cron tick
+  await sendFeedBatches(env, createdFeeds);
+
+  return { result };
+}
+
+type KnownFeed = Pick<Feed, 'id' | 'name' | 'url' | 'domain'>;
+type CreatedFeed = Pick<Feed, 'id' | 'name' | 'url' | 'etag' | 'last_modified'>;
+
+// Existing feeds and former URLs, matched with the same precedence as findDuplicateFeed
+async function loadKnownFeeds(db: D1Database) {
+  const [feeds, aliases] = await db.batch([
+    db.prepare('SELECT id, name, url, domain FROM feeds ORDER BY id ASC'),
+    db.prepare('SELECT url, feed_id FROM feed_url_aliases'),
+  ]);
+
+  const byUrl = new Map<string, KnownFeed>();
+  const byDomain = new Map<string, KnownFeed>();
+  const byId = new Map<number, KnownFeed>();
+  const add = (feed: KnownFeed) => {
+    byUrl.set(feed.url, feed);
+    if (feed.domain && !byDomain.has(feed.domain)) {
+      byDomain.set(feed.domain, feed);
+    }
+    if (feed.id) {
+      byId.set(feed.id, feed);
+    }
+  };
+  for (const feed of (feeds.results || []) as KnownFeed[]) {
+    add(feed);
+  }
+
+  const aliasFeedIds = new Map<string, number>();
+  for (const alias of (aliases.results || []) as { url: string; feed_id: number }[]) {
+    aliasFeedIds.set(alias.url, alias.feed_id);
+  }
+
+  const match = (url: string, domain: string | null): KnownFeed | null => {
+    const exact = byUrl.get(url);
+    if (exact) return exact;
+    const aliasId = aliasFeedIds.get(url);
+    const candidates = [
+      domain ? byDomain.get(domain) : undefined,
+      aliasId !== undefined ? byId.get(aliasId) : undefined,
+    ].filter((feed): feed is KnownFeed => feed !== undefined);
+    // Lowest id wins, as in findDuplicateFeed; outlines queued for insert (id 0) come last
+    candidates.sort((a, b) => (a.id || Infinity) - (b.id || Infinity));
+    return candidates[0] || null;
+  };
+
+  return { match, add };
+}
+
+// Collect every outline with an xmlUrl, flattening nested folders
+function extractOutlines(doc: any): OpmlOutline[] {
+  const body = doc?.opml?.body;
+  if (!body) {
+    throw new Error('Missing opml body');
+  }
+
+  const outlines: OpmlOutline[] = [];
+  const visit = (nodes: any[] | undefined) => {
+    for (const node of nodes || []) {
+      const url = typeof node['@_xmlUrl'] === 'string' ? node['@_xmlUrl'].trim() : '';
+      if (url) {
+        const name = String(node['@_title'] || node['@_text'] || extractDomain(url) || url)
+          .trim()
+          .substring(0, MAX_NAME_LENGTH);
+        outlines.push({ name, url });
+      }
+      visit(node.outline);
+    }
+  };
+  visit(body.outline);
+
+  return outlines;
+}
@@ -1,49 +1,114 @@
-// RSS/Atom Feed Parser using fast-xml-parser
+// RSS/Atom/RDF Feed Parser using fast-xml-parser, plus JSON Feed
 import { XMLParser } from 'fast-xml-parser';
-import { ParsedFeed, ParsedFeedItem } from './types';
+import { ParsedFeed, ParsedFeedItem, ParsedEnclosure, SourceFormat } from './types';
+import { FeedParseError } from './errors';
+import { resolveEntryDates } from './dates';
+import { stripTrackingParams, canonicalUrlKey } from './canonical';
+import { sanitizeHtml, escapeHtml, escapeAttribute, resolveBase } from './sanitize';
+
+// Stored lengths of sanitized HTML, including closing tags
+export const MAX_SUMMARY_LENGTH = 1000;
+export const MAX_CONTENT_LENGTH = 10000;
+
+// Elements kept as raw markup; XHTML content and unescaped HTML would otherwise
+// be split into child nodes and lose their text order
+const MARKUP_ELEMENTS = ['description', 'summary', 'content', 'content:encoded'];
 
 const parser = new XMLParser({
   ignoreAttributes: false,
   attributeNamePrefix: '@_',
   textNodeName: '#text',
-  isArray: (name) => ['item', 'entry', 'category'].includes(name),
+  // Numeric character references (`&#8220;`, WordPress's `&#038;` in links) and &nbsp;
+  htmlEntities: true,
+  stopNodes: MARKUP_ELEMENTS.map(name => `*.${name}`),
+  isArray: (name) => ['item', 'entry', 'category', 'enclosure', 'media:content', 'media:thumbnail'].includes(name),
 });
 
-function generateId(item: any, feedUrl: string): string {
-  // Try to get GUID/ID from item
-  if (item.guid) {
-    const guid = typeof item.guid === 'string' ? item.guid : item.guid['#text'];
-    if (guid) return guid;
-  }
-  if (item.id) {
-    const id = typeof item.id === 'string' ? item.id : item.id['#text'];
-    if (id) return id;
+// Enclosures kept per item
+const MAX_ENCLOSURES = 10;
+
+// Media types for enclosures that don't declare one
+const EXTENSION_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg', m4a: 'audio/mp4', aac: 'audio/aac', ogg: 'audio/ogg', oga: 'audio/ogg', opus: 'audio/ogg',
+  wav: 'audio/wav', flac: 'audio/flac', mp4: 'video/mp4', m4v: 'video/mp4', webm: 'video/webm',
+  mov: 'video/quicktime', jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif',
+  webp: 'image/webp', avif: 'image/avif', pdf: 'application/pdf',
+};
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * An item's identity within its feed: its guid (RSS), id (Atom or JSON Feed) or
+ * rdf:about, else a SHA-256 of the normalized link, title and raw date. Ids only
+ * need to be unique per feed; storeEntries scopes them by feed id.
+ */
+async function generateId(item: any, link: string, title: string, dates: unknown[]): Promise<string> {
+  for (const node of [item.guid, item.id, item['@_rdf:about']]) {
+    // fast-xml-parser yields numbers for numeric guids
+    const value = node !== null && typeof node === 'object' ? node['#text'] : node;
+    if ((typeof value === 'string' || typeof value === 'number') && String(value).trim()) {
+      return String(value).trim();
+    }
   }
-  
-  // Generate hash from title + link
-  const title = extractText(item.title) || '';
-  const link = extractLink(item) || feedUrl;
-  return hashString(`${title}:${link}`);
+  // The date as written, so the id doesn't move when date handling changes
+  const date = dates.find((value): value is string | number => typeof value === 'string' || typeof value === 'number');
+  return fallbackId(link, title, date !== undefined ? String(date).trim() : '');
 }
 
-function hashString(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(16);
+async function fallbackId(link: string, title: string, date: string): Promise<string> {
+  const key = [
+    canonicalUrlKey(link) ?? link.trim(),
+    title.replace(/\s+/g, ' ').trim().toLowerCase(),
+    date,
+  ].join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return 'sha256:' + Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
 function extractText(node: any): string | undefined {
   if (!node) return undefined;
   if (typeof node === 'string') return node.trim();
-  if (node['#text']) return node['#text'].trim();
-  if (node['@_type'] === 'html' && node['#text']) {
-    return stripHtml(node['#text']).trim();
+  if (!node['#text']) return undefined;
+  // Atom text constructs with type="html" carry escaped markup
+  if (node['@_type'] === 'html') {
+    return stripHtml(node['#text']);
   }
-  return undefined;
+  return node['#text'].trim();
+}
+
+/**
+ * Raw HTML of a markup element (see MARKUP_ELEMENTS): the inner <div> of Atom
+ * type="xhtml" content, unescaped HTML as written, or the decoded text of escaped
+ * HTML and CDATA. Atom type="text" content is escaped into HTML.
+ */
+function extractMarkup(node: any): string | undefined {
+  if (node === undefined || node === null) return undefined;
+  const raw = typeof node === 'object' ? node['#text'] : String(node);
+  if (typeof raw !== 'string' || !raw.trim()) return undefined;
+  const type = typeof node === 'object' ? node['@_type'] : undefined;
+
+  if (type === 'xhtml') {
+    return raw
+      .replace(/^\s*<([\w-]+:)?div\b[^>]*>([\s\S]*)<\/([\w-]+:)?div>\s*$/, '$2')
+      .replace(/<(\/?)[\w-]+:/g, '<$1');  // xhtml:p -> p
+  }
+
+  const outsideCdata = raw.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+  if (/<[a-zA-Z]/.test(outsideCdata)) {
+    // Unescaped HTML; the sanitizer treats any CDATA inside it as text
+    return raw;
+  }
+
+  const text = raw
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part => part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeXmlEntities(part))
+    .join('');
+  return type === 'text' ? escapeHtml(text) : text;
+}
+
+// The five predefined XML entities; numeric references are left for HTML to render
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos);/g, (_, name: string) => XML_ENTITIES[name]);
 }
 
 function extractLink(item: any): string | undefined {
@@ -113,55 +178,144 @@ function extractPermalink(item: any, feedUrl: string): string | undefined {
   return undefined;
 }
 
-function extractDate(item: any): string | undefined {
-  // Try various date fields
-  const dateFields = ['pubDate', 'published', 'updated', 'date', 'dc:date'];
-  for (const field of dateFields) {
+// Publication and modification date fields, most specific first
+const PUBLISHED_FIELDS = ['pubDate', 'published', 'dc:date', 'dcterms:issued', 'dcterms:created', 'issued', 'created'];
+const UPDATED_FIELDS = ['updated', 'atom:updated', 'dcterms:modified', 'modified'];
+
+// Raw values of an item's date fields
+function dateFields(item: any): { published: unknown[]; updated: unknown[] } {
+  const text = (field: string) => {
     const value = item[field];
-    if (value) {
-      const dateStr = typeof value === 'string' ? value : value['#text'];
-      if (dateStr) {
-        try {
-          const date = new Date(dateStr);
-          if (!isNaN(date.getTime())) {
-            return date.toISOString();
-          }
-        } catch (e) {
-          // Invalid date, try next
-        }
-      }
+    return value !== null && typeof value === 'object' ? value['#text'] : value;
+  };
+  return { published: PUBLISHED_FIELDS.map(text), updated: UPDATED_FIELDS.map(text) };
+}
+
+/**
+ * Summary and content as sanitized HTML. Relative URLs resolve against the
+ * element's xml:base, then `baseUrl` (the item's xml:base or the feed link).
+ * Items without either (YouTube, Flickr, podcasts) fall back to their Media RSS
+ * description and thumbnail; items with text of their own never get the image as
+ * content, since readers show content in place of the summary.
+ */
+function extractContent(item: any, baseUrl: string | undefined): { summary?: string; content?: string } {
+  const summaryNode = item.description ?? item.summary;
+  const contentNode = item['content:encoded'] ?? item.content;
+
+  let summary = sanitizeNode(summaryNode, baseUrl, MAX_SUMMARY_LENGTH);
+  let content = sanitizeNode(contentNode, baseUrl, MAX_CONTENT_LENGTH);
+
+  if (!summary) {
+    const media = extractMedia(item);
+    const description = media.description ? escapeHtml(media.description).replace(/\r?\n/g, '<br>') : '';
+    if (description) {
+      summary = sanitizeHtml(description, baseUrl, MAX_SUMMARY_LENGTH) || undefined;
+    }
+    if (!content && media.image) {
+      const image = `<p><img src="${escapeAttribute(media.image)}"></p>`;
+      content = sanitizeHtml(image + (description ? `<p>${description}</p>` : ''), baseUrl, MAX_CONTENT_LENGTH) || undefined;
     }
   }
-  return undefined;
+
+  return { summary, content };
+}
+
+function sanitizeNode(node: any, baseUrl: string | undefined, maxLength: number): string | undefined {
+  const markup = extractMarkup(node);
+  if (!markup) return undefined;
+  const html = sanitizeHtml(markup, resolveBase(node?.['@_xml:base'], baseUrl), maxLength);
+  return html || undefined;
 }
 
-function extractContent(item: any): { summary?: string; content?: string } {
-  let summary: string | undefined;
-  let content: string | undefined;
+/**
+ * Preview image and description from Media RSS (media:thumbnail, media:content,
+ * media:description, also inside media:group), itunes:image or an image enclosure.
+ */
+function extractMedia(item: any): { image?: string; description?: string } {
+  const scopes = [item, item['media:group']].filter(scope => scope && typeof scope === 'object');
 
-  // Try description/summary
-  if (item.description) {
-    summary = extractText(item.description);
-  } else if (item.summary) {
-    summary = extractText(item.summary);
+  let image: string | undefined;
+  let description: string | undefined;
+  for (const scope of scopes) {
+    const contents: any[] = scope['media:content'] || [];
+    image = image
+      || (scope['media:thumbnail'] || []).map((thumb: any) => attribute(thumb, 'url')).find(Boolean)
+      || contents.map(media => attribute(media['media:thumbnail']?.[0], 'url')).find(Boolean)
+      || contents
+        .filter(media => attribute(media, 'medium') === 'image' || attribute(media, 'type')?.startsWith('image/'))
+        .map(media => attribute(media, 'url'))
+        .find(Boolean);
+    description = description || extractText(scope['media:description']);
   }
 
-  // Try content:encoded or content
-  if (item['content:encoded']) {
-    content = extractText(item['content:encoded']);
-  } else if (item.content) {
-    content = extractText(item.content);
+  if (!image) {
+    image = attribute(item['itunes:image'], 'href')
+      || (item.enclosure || [])
+        .filter((enclosure: any) => attribute(enclosure, 'type')?.startsWith('image/'))
+        .map((enclosure: any) => attribute(enclosure, 'url'))
+        .find(Boolean);
   }
 
-  // Limit lengths
-  if (summary && summary.length > 1000) {
-    summary = summary.substring(0, 1000) + '...';
+  return { image, description };
+}
+
+// Trimmed string value of an attribute, if present
+function attribute(node: any, name: string): string | undefined {
+  const value = node?.[`@_${name}`];
+  return typeof value === 'string' ? value.trim() || undefined : undefined;
+}
+
+/**
+ * Media attached to an item: RSS <enclosure>, Atom <link rel="enclosure"> and
+ * media:content (also inside media:group), resolved against the item's base and
+ * deduplicated by URL. Types missing upstream are guessed from the file extension.
+ */
+function extractEnclosures(item: any, baseUrl: string | undefined): ParsedEnclosure[] {
+  const found: { url?: string; type?: string; length?: string; medium?: string }[] = [];
+
+  for (const enclosure of item.enclosure || []) {
+    found.push({ url: attribute(enclosure, 'url'), type: attribute(enclosure, 'type'), length: attribute(enclosure, 'length') });
+  }
+  const links = Array.isArray(item.link) ? item.link : item.link && typeof item.link === 'object' ? [item.link] : [];
+  for (const link of links) {
+    if (attribute(link, 'rel') === 'enclosure') {
+      found.push({ url: attribute(link, 'href'), type: attribute(link, 'type'), length: attribute(link, 'length') });
+    }
   }
-  if (content && content.length > 10000) {
-    content = content.substring(0, 10000) + '...';
+  for (const scope of [item, item['media:group']]) {
+    for (const media of scope?.['media:content'] || []) {
+      found.push({
+        url: attribute(media, 'url'),
+        type: attribute(media, 'type'),
+        length: attribute(media, 'fileSize'),
+        medium: attribute(media, 'medium'),
+      });
+    }
   }
 
-  return { summary, content };
+  const enclosures = new Map<string, ParsedEnclosure>();
+  for (const { url, type, length, medium } of found) {
+    if (!url) continue;
+    const resolved = absoluteUrl(url, baseUrl);
+    if (!httpUrl(resolved) || enclosures.has(resolved)) continue;
+
+    const size = parseInt(length || '');
+    enclosures.set(resolved, {
+      url: resolved,
+      type: type?.toLowerCase() || guessMediaType(resolved, medium),
+      length: size > 0 ? size : undefined,
+    });
+    if (enclosures.size >= MAX_ENCLOSURES) break;
+  }
+  return [...enclosures.values()];
+}
+
+function guessMediaType(url: string, medium: string | undefined): string | undefined {
+  const extension = url.match(/\.([a-z0-9]{2,4})(?:[?#]|$)/i)?.[1].toLowerCase();
+  const type = extension ? EXTENSION_TYPES[extension] : undefined;
+  // Trust the extension only when it agrees with a declared medium
+  if (type && medium && !type.startsWith(`${medium}/`)) return undefined;
+  return type;
 }
 
 function extractAuthor(item: any): string | undefined {
@@ -188,7 +342,40 @@ function extractTags(item: any): string[] {
   return tags;
 }
 
-function stripHtml(html: string): string {
+// Seconds per sy:updatePeriod value (RSS Syndication module)
+const UPDATE_PERIOD_SECONDS: Record<string, number> = {
+  hourly: 3600,
+  daily: 86400,
+  weekly: 604800,
+  monthly: 2592000,
+  yearly: 31536000,
+};
+
+/**
+ * Publisher's requested refresh interval in seconds, from RSS <ttl> (minutes)
+ * or sy:updatePeriod / sy:updateFrequency. The longer of the two wins.
+ */
+function extractRefreshInterval(channel: any): number | undefined {
+  let interval: number | undefined;
+
+  // fast-xml-parser yields numbers for numeric text nodes
+  const ttl = typeof channel.ttl === 'number' ? channel.ttl : parseInt(extractText(channel.ttl) || '');
+  if (ttl > 0) {
+    interval = ttl * 60;
+  }
+
+  const period = extractText(channel['sy:updatePeriod'])?.toLowerCase();
+  if (period && UPDATE_PERIOD_SECONDS[period]) {
+    const rawFrequency = channel['sy:updateFrequency'];
+    const frequency = (typeof rawFrequency === 'number' ? rawFrequency : parseInt(extractText(rawFrequency) || '')) || 1;
+    const periodInterval = Math.round(UPDATE_PERIOD_SECONDS[period] / Math.max(frequency, 1));
+    interval = Math.max(interval ?? 0, periodInterval);
+  }
+
+  return interval;
+}
+
+export function stripHtml(html: string): string {
   return html
     .replace(/<[^>]*>/g, ' ')
     .replace(/&nbsp;/g, ' ')
@@ -201,50 +388,195 @@ function stripHtml(html: string): string {
     .trim();
 }
 
-export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
-  const doc = parser.parse(xml);
+/**
+ * Parse an RSS 2.0, Atom, RSS 1.0 (RDF) or JSON Feed document.
+ * Throws FeedParseError when the body is malformed or in no recognized format.
+ */
+export async function parseFeed(body: string, feedUrl: string): Promise<ParsedFeed> {
+  if (body.trimStart().startsWith('{')) {
+    return parseJsonFeed(body, feedUrl);
+  }
+
+  let doc: any;
+  try {
+    doc = parser.parse(unprefixAtom(body));
+  } catch (error) {
+    throw new FeedParseError('invalid_xml', `Invalid XML: ${error instanceof Error ? error.message : 'parse failed'}`);
+  }
   
   let title = 'Unknown Feed';
+  let format: SourceFormat;
   let items: any[] = [];
+  let refreshInterval: number | undefined;
+  // Base for relative URLs in entry content and links
+  let baseUrl: string | undefined = feedUrl;
 
   // RSS 2.0 format
   if (doc.rss?.channel) {
     const channel = doc.rss.channel;
+    format = 'rss';
     title = extractText(channel.title) || title;
     items = channel.item || [];
+    refreshInterval = extractRefreshInterval(channel);
+    baseUrl = resolveBase(extractLink(channel), feedUrl);
   }
   // Atom format
   else if (doc.feed) {
+    format = 'atom';
     title = extractText(doc.feed.title) || title;
     items = doc.feed.entry || [];
+    // A feed-level xml:base is relative to the document itself
+    baseUrl = doc.feed['@_xml:base']
+      ? resolveBase(doc.feed['@_xml:base'], feedUrl)
+      : resolveBase(extractLink(doc.feed), feedUrl);
   }
   // RSS 1.0 / RDF format
   else if (doc['rdf:RDF']) {
     const rdf = doc['rdf:RDF'];
+    format = 'rdf';
     if (rdf.channel) {
       title = extractText(rdf.channel.title) || title;
+      refreshInterval = extractRefreshInterval(rdf.channel);
+      baseUrl = resolveBase(extractLink(rdf.channel), feedUrl);
     }
     items = rdf.item || [];
   }
+  else {
+    const root = Object.keys(doc).find(key => !key.startsWith('?'));
+    throw new FeedParseError(
+      'unrecognized_format',
+      root ? `Unrecognized feed format (root element <${root}>)` : 'Unrecognized feed format (no root element)',
+      root
+    );
+  }
 
-  const parsedItems: ParsedFeedItem[] = items.map((item: any) => {
-    const { summary, content } = extractContent(item);
-    const link = extractLink(item) || feedUrl;
-    const permalink = extractPermalink(item, feedUrl);
+  const parsedItems: ParsedFeedItem[] = await Promise.all(items.map(async (item: any) => {
+    const itemBase = resolveBase(item['@_xml:base'], baseUrl);
+    const { summary, content } = extractContent(item, itemBase);
+    const thumbnail = extractMedia(item).image;
+    const ownLink = extractLink(item);
+    const link = stripTrackingParams(absoluteUrl(ownLink || feedUrl, itemBase));
+    const rawPermalink = extractPermalink(item, feedUrl);
+    const permalink = rawPermalink ? stripTrackingParams(absoluteUrl(rawPermalink, itemBase)) : rawPermalink;
+    const title = extractText(item.title) || 'Untitled';
+    const dates = dateFields(item);
+    const { published, updated, inferred } = resolveEntryDates(dates.published, dates.updated);
     
     return {
-      id: generateId(item, feedUrl),
-      title: extractText(item.title) || 'Untitled',
+      id: await generateId(item, link, title, dates.published),
+      title,
       link,
+      linkInferred: !ownLink,
       permalink,  // Blog's own URL (may differ from link for linkblogs)
-      published: extractDate(item),
-      updated: item.updated ? extractDate({ pubDate: item.updated }) : undefined,
+      published,
+      updated,
+      dateInferred: inferred,
       summary,
       content,
       author: extractAuthor(item),
       tags: extractTags(item),
+      enclosures: extractEnclosures(item, itemBase),
+      thumbnail: thumbnail ? httpUrl(absoluteUrl(thumbnail, itemBase)) : undefined,
     };
-  });
+  }));
+
+  return { title, format, items: parsedItems, refreshInterval };
+}
+
+// Atom documents with a prefixed root (<atom:feed xmlns:atom="...">) are read as unprefixed Atom
+function unprefixAtom(xml: string): string {
+  const root = xml.match(/^\s*(?:(?:<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<([\w.-]+):feed[\s>]/);
+  if (!root) return xml;
+  return xml.replace(new RegExp(`<(/?)${root[1]}:`, 'g'), '<$1');
+}
+
+function httpUrl(url: string): string | undefined {
+  return /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+// Resolve a relative link against the item's base; absolute URLs are kept byte-for-byte
+function absoluteUrl(url: string, baseUrl: string | undefined): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url)) return url;
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Parse a JSON Feed (https://jsonfeed.org, versions 1.0 and 1.1). `external_url`
+ * is the linked article and `url` the item's own page, matching link/permalink
+ * for linkblogs.
+ */
+async function parseJsonFeed(body: string, feedUrl: string): Promise<ParsedFeed> {
+  let doc: any;
+  try {
+    doc = JSON.parse(body);
+  } catch (error) {
+    throw new FeedParseError('invalid_json', `Invalid JSON: ${error instanceof Error ? error.message : 'parse failed'}`, 'json');
+  }
+  if (typeof doc?.version !== 'string' || !doc.version.includes('jsonfeed.org') || !Array.isArray(doc.items)) {
+    throw new FeedParseError('unrecognized_format', 'Unrecognized feed format (JSON document is not a JSON Feed)', 'json');
+  }
+
+  const baseUrl = resolveBase(typeof doc.home_page_url === 'string' ? doc.home_page_url : undefined, feedUrl);
+  const string = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+  const items: ParsedFeedItem[] = await Promise.all(doc.items
+    .filter((item: any) => item && typeof item === 'object')
+    .map(async (item: any) => {
+      const url = string(item.url);
+      const externalUrl = string(item.external_url);
+      const link = stripTrackingParams(absoluteUrl(externalUrl || url || feedUrl, baseUrl));
+      const permalink = externalUrl && url ? stripTrackingParams(absoluteUrl(url, baseUrl)) : undefined;
+      const title = string(item.title) || 'Untitled';
+
+      const html = string(item.content_html)
+        || (string(item.content_text) ? escapeHtml(item.content_text).replace(/\r?\n/g, '<br>') : undefined);
+      let content = html ? sanitizeHtml(html, baseUrl, MAX_CONTENT_LENGTH) || undefined : undefined;
+      const summary = string(item.summary)
+        ? sanitizeHtml(escapeHtml(item.summary), baseUrl, MAX_SUMMARY_LENGTH) || undefined
+        : undefined;
+      const image = string(item.image) || string(item.banner_image);
+      if (!content && !summary && image) {
+        content = sanitizeHtml(`<p><img src="${escapeAttribute(image)}"></p>`, baseUrl, MAX_CONTENT_LENGTH) || undefined;
+      }
+
+      const enclosures: ParsedEnclosure[] = (Array.isArray(item.attachments) ? item.attachments : [])
+        .map((attachment: any) => ({
+          url: string(attachment?.url) ? httpUrl(absoluteUrl(attachment.url.trim(), baseUrl)) : undefined,
+          type: string(attachment?.mime_type)?.toLowerCase(),
+          length: typeof attachment?.size_in_bytes === 'number' && attachment.size_in_bytes > 0 ? attachment.size_in_bytes : undefined,
+        }))
+        .filter((attachment: { url?: string }): attachment is ParsedEnclosure => !!attachment.url)
+        .slice(0, MAX_ENCLOSURES);
+
+      const authors: any[] = Array.isArray(item.authors) ? item.authors : item.author ? [item.author] : [];
+      const tags: string[] = Array.isArray(item.tags)
+        ? item.tags.filter((tag: unknown): tag is string => typeof tag === 'string' && !!tag.trim()).map((tag: string) => tag.trim())
+        : [];
+
+      const { published, updated, inferred } = resolveEntryDates([item.date_published], [item.date_modified]);
+
+      return {
+        id: await generateId(item, link, title, [item.date_published]),
+        title,
+        link,
+        linkInferred: !externalUrl && !url,
+        permalink,
+        published,
+        updated,
+        dateInferred: inferred,
+        summary,
+        content,
+        author: authors.map(author => string(author?.name)).find(Boolean),
+        tags,
+        enclosures,
+        thumbnail: image ? httpUrl(absoluteUrl(image, baseUrl)) : undefined,
+      };
+    }));
 
-  return { title, items: parsedItems };
+  return { title: string(doc.title) || 'Unknown Feed', format: 'json', items };
 }
@@ -0,0 +1,55 @@
+// Admin API for feeds quarantined by the fetch circuit breaker
+import { Env, Feed } from './types';
+import { queueFeed } from './fetcher';
+
+/**
+ * Route /api/quarantine:
+ * - GET  /api/quarantine                 list quarantined feeds with their last errors
+ * - POST /api/quarantine/{id}/reinstate  clear the quarantine and fetch right away
+ */
+export async function handleQuarantineApi(request: Request, env: Env, path: string): Promise<Response> {
+  if (path === '/api/quarantine' && request.method === 'GET') {
+    return listQuarantined(env);
+  }
+
+  const match = path.match(/^\/api\/quarantine\/(\d+)\/reinstate$/);
+  if (match && request.method === 'POST') {
+    return reinstateFeed(env, parseInt(match[1]));
+  }
+
+  return Response.json({ error: 'Not Found' }, { status: 404 });
+}
+
+async function listQuarantined(env: Env): Promise<Response> {
+  const feeds = await env.DB.prepare(`
+    SELECT id, name, url, rank, error_count, last_error, last_fetched,
+           quarantined_at, next_fetch_at as next_probe_at
+    FROM feeds
+    WHERE quarantined_at IS NOT NULL
+    ORDER BY quarantined_at DESC
+  `).all();
+
+  return Response.json({ feeds: feeds.results || [] });
+}
+
+async function reinstateFeed(env: Env, feedId: number): Promise<Response> {
+  const feed = await env.DB.prepare(`
+    UPDATE feeds SET
+      quarantined_at = NULL,
+      error_count = 0,
+      next_fetch_at = NULL,
+      updated_at = ?
+    WHERE id = ? AND quarantined_at IS NOT NULL
+    RETURNING id, name, url, etag, last_modified, disabled
+  `).bind(new Date().toISOString(), feedId).first<Pick<Feed, 'id' | 'name' | 'url' | 'etag' | 'last_modified' | 'disabled'>>();
+
+  if (!feed) {
+    return Response.json({ error: 'Feed not found or not quarantined' }, { status: 404 });
+  }
+
+  if (!feed.disabled) {
+    await queueFeed(env, feed);
+  }
+
+  return Response.json({ reinstated: true, feed: { id: feed.id, name: feed.name, url: feed.url }, queued: !feed.disabled });
+}
@@ -0,0 +1,329 @@
+// Bulk rank import (replaces scripts/update-ranks.py) and rank change history
+import { Env, Feed } from './types';
+import { domainMatchScore, extractDomain, normalizeDomain } from './domains';
+
+const MAX_RANK = 100;
+const MAX_RANKINGS = 1000;
+const MAX_HISTORY_ROWS = 500;
+
+export interface Ranking {
+  rank: number;
+  domain: string;
+}
+
+export interface RankChange {
+  feedId: number;
+  name: string;
+  domain: string | null;
+  rankedDomain: string | null;  // null when the feed is being unranked
+  oldRank: number | null;
+  newRank: number | null;
+}
+
+export interface RankImportPlan {
+  changes: RankChange[];
+  unchanged: number;
+  unmatchedDomains: Ranking[];
+  ambiguities: {
+    feedId: number;
+    name: string;
+    domain: string | null;
+    candidates: Ranking[];
+    chosen: Ranking;
+  }[];
+  // Rankings matched by several feeds; only `chosenFeedId` takes the rank
+  sharedRankings: {
+    ranking: Ranking;
+    feeds: { feedId: number; name: string; domain: string | null }[];
+    chosenFeedId: number;
+  }[];
+}
+
+interface RankImportOptions {
+  dryRun: boolean;
+  unrankMissing: boolean;  // Clear the rank of feeds that match no ranking
+}
+
+/**
+ * Handle POST /api/ranks.
+ * Accepts CSV/TSV (header with `rank` and `domain` columns, like top100.csv) or JSON
+ * (`{"rankings": [{"rank": 1, "domain": "example.com"}]}` or a bare array).
+ * `?dryRun=true` returns the plan without applying it; `?unrankMissing=true` also
+ * clears ranks of feeds absent from the rankings.
+ */
+export async function handleRankImport(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const options: RankImportOptions = {
+    dryRun: url.searchParams.get('dryRun') === 'true',
+    unrankMissing: url.searchParams.get('unrankMissing') === 'true',
+  };
+
+  const body = await request.text();
+  const contentType = request.headers.get('Content-Type') || '';
+  const { rankings, error } = contentType.includes('json')
+    ? parseJsonRankings(body)
+    : parseCsvRankings(body);
+
+  if (!rankings) {
+    return Response.json({ error }, { status: 400 });
+  }
+
+  const plan = await planRankImport(env.DB, rankings, options);
+
+  if (!options.dryRun && plan.changes.length > 0) {
+    await applyRankChanges(env.DB, plan.changes, 'import');
+  }
+
+  return Response.json({ dryRun: options.dryRun, applied: !options.dryRun, ...plan });
+}
+
+/**
+ * Handle GET /api/ranks/history[?feed={id}] - most recent rank changes first.
+ */
+export async function handleRankHistory(request: Request, env: Env): Promise<Response> {
+  const feedParam = new URL(request.url).searchParams.get('feed');
+  if (feedParam !== null && !/^\d+$/.test(feedParam)) {
+    return Response.json({ error: 'feed must be a feed id' }, { status: 400 });
+  }
+  const feedId = feedParam !== null ? parseInt(feedParam) : null;
+
+  const history = await env.DB.prepare(`
+    SELECT h.id, h.feed_id, f.name as feed_name, h.old_rank, h.new_rank, h.source, h.changed_at
+    FROM rank_history h
+    LEFT JOIN feeds f ON h.feed_id = f.id
+    WHERE ? IS NULL OR h.feed_id = ?
+    ORDER BY h.changed_at DESC, h.id DESC
+    LIMIT ?
+  `).bind(feedId, feedId, MAX_HISTORY_ROWS).all();
+
+  return Response.json({ history: history.results || [] });
+}
+
+/**
+ * Statement recording one rank change in rank_history.
+ * `source` says where the change came from: 'import' or 'admin'.
+ */
+export function rankHistoryStatement(
+  db: D1Database,
+  feedId: number,
+  oldRank: number | null,
+  newRank: number | null,
+  source: string
+): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO rank_history (feed_id, old_rank, new_rank, source, changed_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(feedId, oldRank, newRank, source, new Date().toISOString());
+}
+
+/**
+ * Match rankings to feeds by domain. Each feed takes the most specific matching
+ * ranking (see domainMatchScore); feeds matching several rankings are reported as
+ * ambiguities, with the best score and then the best rank winning. A ranking chosen
+ * by several feeds goes to the best-scoring, then oldest, feed; the others are
+ * reported in sharedRankings and treated as unmatched.
+ */
+async function planRankImport(
+  db: D1Database,
+  rankings: Ranking[],
+  options: RankImportOptions
+): Promise<RankImportPlan> {
+  const feeds = await db.prepare('SELECT id, name, url, domain, rank FROM feeds ORDER BY id ASC')
+    .all<Pick<Feed, 'id' | 'name' | 'url' | 'domain' | 'rank'>>();
+
+  const plan: RankImportPlan = {
+    changes: [], unchanged: 0, unmatchedDomains: [], ambiguities: [], sharedRankings: [],
+  };
+  const matchedDomains = new Set<string>();
+  const matches: {
+    feed: Pick<Feed, 'id' | 'name' | 'rank'>;
+    domain: string | null;
+    chosen: Ranking | null;
+    score: number;
+  }[] = [];
+
+  for (const feed of feeds.results || []) {
+    const feedDomain = feed.domain || extractDomain(feed.url);
+    const candidates = feedDomain
+      ? rankings
+          .map(ranking => ({ ranking, score: domainMatchScore(feedDomain, ranking.domain) }))
+          .filter(candidate => candidate.score > 0)
+          .sort((a, b) => b.score - a.score || a.ranking.rank - b.ranking.rank)
+      : [];
+
+    if (candidates.length === 0) {
+      matches.push({ feed, domain: feedDomain, chosen: null, score: 0 });
+      continue;
+    }
+
+    const chosen = candidates[0].ranking;
+    candidates.forEach(candidate => matchedDomains.add(candidate.ranking.domain));
+    matches.push({ feed, domain: feedDomain, chosen, score: candidates[0].score });
+
+    if (candidates.length > 1) {
+      plan.ambiguities.push({
+        feedId: feed.id,
+        name: feed.name,
+        domain: feedDomain,
+        candidates: candidates.map(candidate => candidate.ranking),
+        chosen,
+      });
+    }
+  }
+
+  // Several feeds on one ranked domain must not all take its rank
+  const claimants = new Map<Ranking, typeof matches>();
+  for (const match of matches) {
+    if (match.chosen) {
+      claimants.set(match.chosen, [...(claimants.get(match.chosen) || []), match]);
+    }
+  }
+  for (const [ranking, claims] of claimants) {
+    if (claims.length < 2) continue;
+    // Feeds are in id order, so a stable sort keeps the oldest first among equal scores
+    const [winner, ...losers] = [...claims].sort((a, b) => b.score - a.score);
+    losers.forEach(loser => { loser.chosen = null; });
+    plan.sharedRankings.push({
+      ranking,
+      feeds: claims.map(claim => ({ feedId: claim.feed.id, name: claim.feed.name, domain: claim.domain })),
+      chosenFeedId: winner.feed.id,
+    });
+  }
+
+  for (const { feed, domain, chosen } of matches) {
+    let newRank: number | null;
+    if (chosen) {
+      newRank = chosen.rank;
+    } else if (options.unrankMissing) {
+      newRank = null;
+    } else {
+      continue;
+    }
+
+    if (newRank === feed.rank) {
+      plan.unchanged++;
+      continue;
+    }
+
+    plan.changes.push({
+      feedId: feed.id,
+      name: feed.name,
+      domain,
+      rankedDomain: chosen?.domain ?? null,
+      oldRank: feed.rank,
+      newRank,
+    });
+  }
+
+  plan.unmatchedDomains = rankings.filter(ranking => !matchedDomains.has(ranking.domain));
+  return plan;
+}
+
+async function applyRankChanges(db: D1Database, changes: RankChange[], source: string): Promise<void> {
+  const now = new Date().toISOString();
+  const statements = changes.flatMap(change => [
+    db.prepare('UPDATE feeds SET rank = ?, updated_at = ? WHERE id = ?')
+      .bind(change.newRank, now, change.feedId),
+    rankHistoryStatement(db, change.feedId, change.oldRank, change.newRank, source),
+  ]);
+
+  // D1 runs a batch as a single transaction
+  await db.batch(statements);
+}
+
+function parseJsonRankings(body: string): { rankings?: Ranking[]; error?: string } {
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return { error: 'Request body must be JSON' };
+  }
+
+  const rows = Array.isArray(data) ? data : data?.rankings;
+  if (!Array.isArray(rows)) {
+    return { error: 'Expected an array of {rank, domain} or {"rankings": [...]}' };
+  }
+
+  return validateRankings(rows.map((row: any) => ({ rank: row?.rank, domain: row?.domain })));
+}
+
+// Parse CSV or TSV (delimiter detected from the header line)
+function parseCsvRankings(body: string): { rankings?: Ranking[]; error?: string } {
+  const lines = body.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) {
+    return { error: 'Rankings are empty' };
+  }
+
+  const delimiter = lines[0].includes('\t') ? '\t' : ',';
+  let rankIndex = 0;
+  let domainIndex = 1;
+
+  // A header row is optional; without one, columns are rank then domain (as in top100.csv)
+  const header = splitCsvLine(lines[0], delimiter).map(cell => cell.toLowerCase());
+  if (!/^\d+$/.test(header[0] || '')) {
+    rankIndex = header.indexOf('rank');
+    domainIndex = header.indexOf('domain');
+    if (rankIndex === -1 || domainIndex === -1) {
+      return { error: 'CSV header must include rank and domain columns' };
+    }
+    lines.shift();
+  }
+
+  return validateRankings(lines.map(line => {
+    const cells = splitCsvLine(line, delimiter);
+    return { rank: Number(cells[rankIndex]), domain: cells[domainIndex] };
+  }));
+}
+
+function validateRankings(rows: { rank: unknown; domain: unknown }[]): { rankings?: Ranking[]; error?: string } {
+  if (rows.length === 0) {
+    return { error: 'Rankings are empty' };
+  }
+  if (rows.length > MAX_RANKINGS) {
+    return { error: `At most ${MAX_RANKINGS} rankings are allowed` };
+  }
+
+  const rankings: Ranking[] = [];
+  for (const [i, row] of rows.entries()) {
+    if (!Number.isInteger(row.rank) || (row.rank as number) < 1 || (row.rank as number) > MAX_RANK) {
+      return { error: `Row ${i + 1}: rank must be an integer within 1-${MAX_RANK}` };
+    }
+    if (typeof row.domain !== 'string' || !normalizeDomain(row.domain)) {
+      return { error: `Row ${i + 1}: domain is required` };
+    }
+    rankings.push({ rank: row.rank as number, domain: normalizeDomain(row.domain) });
+  }
+
+  return { rankings };
+}
+
+// Minimal CSV field splitter supporting double-quoted fields
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+}
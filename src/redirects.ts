@@ -0,0 +1,113 @@
+// Persist permanent redirects of feed URLs
+import { Env } from './types';
+
+// A single 301 can be a misconfiguration; wait for it to stick
+const DEFAULT_REDIRECT_CONFIRMATIONS = 3;
+
+export function redirectConfirmations(env: Env): number {
+  return parseInt(env.REDIRECT_CONFIRMATIONS || '') || DEFAULT_REDIRECT_CONFIRMATIONS;
+}
+
+/**
+ * Count successful fetches that were permanently redirected to the same URL and,
+ * after REDIRECT_CONFIRMATIONS of them, switch feeds.url to the new location,
+ * keeping the old URL in feed_url_aliases. Returns the new URL when it was switched.
+ *
+ * The domain is left alone: it identifies the ranked site, which a feed host
+ * change (e.g. to a feed proxy) doesn't alter.
+ */
+export async function trackPermanentRedirect(
+  env: Env,
+  feedId: number,
+  feedUrl: string,
+  permanentUrl: string | null
+): Promise<string | null> {
+  if (!permanentUrl || permanentUrl === feedUrl) {
+    await env.DB.prepare(`
+      UPDATE feeds SET moved_to = NULL, moved_count = 0
+      WHERE id = ? AND url = ? AND moved_to IS NOT NULL
+    `).bind(feedId, feedUrl).run();
+    return null;
+  }
+
+  const tracked = await env.DB.prepare(`
+    UPDATE feeds SET
+      moved_count = CASE WHEN moved_to = ? THEN moved_count + 1 ELSE 1 END,
+      moved_to = ?
+    WHERE id = ? AND url = ?
+    RETURNING moved_count
+  `).bind(permanentUrl, permanentUrl, feedId, feedUrl).first<{moved_count: number}>();
+
+  // No row means the URL already changed since this message was queued
+  if (!tracked || tracked.moved_count < redirectConfirmations(env)) {
+    return null;
+  }
+
+  // feeds.url is unique; a feed already registered at the new URL needs an admin
+  const conflict = await env.DB.prepare('SELECT id FROM feeds WHERE url = ? AND id != ?')
+    .bind(permanentUrl, feedId).first<{id: number}>();
+  if (conflict) {
+    console.log(`Feed ${feedId} moved to ${permanentUrl}, already registered as feed ${conflict.id}`);
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  await env.DB.batch([
+    env.DB.prepare(`
+      INSERT OR REPLACE INTO feed_url_aliases (url, feed_id, replaced_by, replaced_at)
+      VALUES (?, ?, ?, ?)
+    `).bind(feedUrl, feedId, permanentUrl, now),
+    // The feed may be moving back to a URL it used before
+    env.DB.prepare('DELETE FROM feed_url_aliases WHERE url = ?').bind(permanentUrl),
+    // Cache validators belong to the old URL
+    env.DB.prepare(`
+      UPDATE feeds SET
+        url = ?,
+        moved_to = NULL,
+        moved_count = 0,
+        etag = NULL,
+        last_modified = NULL,
+        updated_at = ?
+      WHERE id = ? AND url = ?
+    `).bind(permanentUrl, now, feedId, feedUrl),
+  ]);
+
+  console.log(`Feed ${feedId} URL updated: ${feedUrl} -> ${permanentUrl}`);
+  return permanentUrl;
+}
+
+/**
+ * Redirect summary for /api/stats: moves awaiting confirmation (or blocked by a
+ * URL conflict) and the most recent automatic URL changes.
+ */
+export async function redirectStats(env: Env): Promise<{
+  pending: number;
+  updatedLast30d: number;
+  recent: { feedId: number; feedName: string | null; from: string; to: string; at: string }[];
+}> {
+  const [pending, updated, recent] = await Promise.all([
+    env.DB.prepare('SELECT COUNT(*) as count FROM feeds WHERE moved_to IS NOT NULL').first<{count: number}>(),
+    env.DB.prepare(`
+      SELECT COUNT(*) as count FROM feed_url_aliases WHERE replaced_at > ?
+    `).bind(new Date(Date.now() - 30 * 86400000).toISOString()).first<{count: number}>(),
+    env.DB.prepare(`
+      SELECT a.feed_id, f.name, a.url, a.replaced_by, a.replaced_at
+      FROM feed_url_aliases a
+      LEFT JOIN feeds f ON a.feed_id = f.id
+      ORDER BY a.replaced_at DESC
+      LIMIT 10
+    `).all<{feed_id: number; name: string | null; url: string; replaced_by: string; replaced_at: string}>(),
+  ]);
+
+  return {
+    pending: pending?.count || 0,
+    updatedLast30d: updated?.count || 0,
+    recent: (recent.results || []).map(row => ({
+      feedId: row.feed_id,
+      feedName: row.name,
+      from: row.url,
+      to: row.replaced_by,
+      at: row.replaced_at,
+    })),
+  };
+}
@@ -0,0 +1,302 @@
+// HTML sanitization of entry content before it is stored and republished
+
+// Elements kept as-is (minus disallowed attributes)
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'acronym', 'address', 'article', 'aside', 'audio', 'b', 'bdi', 'bdo', 'big',
+  'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'details',
+  'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4',
+  'h5', 'h6', 'header', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'picture',
+  'pre', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'section', 'small', 'source', 'span', 'strike',
+  'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time',
+  'tr', 'track', 'tt', 'u', 'ul', 'var', 'video', 'wbr',
+]);
+
+// Elements removed together with everything inside them; other unknown
+// elements (font, form, custom elements) are unwrapped and their text kept
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript',
+  'template', 'svg', 'math', 'head', 'title', 'textarea', 'select', 'button', 'canvas',
+]);
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'frame', 'hr', 'img', 'input', 'keygen', 'link', 'meta',
+  'param', 'source', 'track', 'wbr',
+]);
+
+// Attributes allowed on any kept element; everything else (style, class, on*) is dropped
+const GLOBAL_ATTRIBUTES = new Set(['title', 'lang', 'dir']);
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  abbr: ['title'],
+  audio: ['src', 'controls'],
+  blockquote: ['cite'],
+  col: ['span'],
+  colgroup: ['span'],
+  del: ['cite', 'datetime'],
+  details: ['open'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height'],
+  ins: ['cite', 'datetime'],
+  li: ['value'],
+  ol: ['start', 'reversed', 'type'],
+  q: ['cite'],
+  source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  td: ['colspan', 'rowspan', 'headers'],
+  th: ['colspan', 'rowspan', 'headers', 'scope', 'abbr'],
+  time: ['datetime'],
+  track: ['src', 'kind', 'srclang', 'label'],
+  video: ['src', 'poster', 'controls', 'width', 'height'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite', 'poster']);
+
+// Hosts and paths of known tracking pixels and feed "flare" images
+const TRACKER_PATTERNS = [
+  /^https?:\/\/feeds\.feedburner\.com\/~(r|ff)\//i,
+  /^https?:\/\/feeds\.wordpress\.com\/1\.0\//i,
+  /^https?:\/\/(pixel|stats)\.wp\.com\//i,
+  /^https?:\/\/stats\.wordpress\.com\//i,
+  /^https?:\/\/(www|ssl)\.google-analytics\.com\//i,
+  /^https?:\/\/pixel\.quantserve\.com\//i,
+  /^https?:\/\/pi\.feedsportal\.com\//i,
+  /^https?:\/\/[^/]*\.list-manage\.com\/track\//i,
+];
+
+// Comments, CDATA, doctypes/processing instructions, end tags and start tags
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?][^>]*>?|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?|\s*\/)*)\s*>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Sanitize upstream HTML for republishing: drop scripts, frames, embeds, forms,
+ * event handlers, inline styles and tracking pixels, resolve relative
+ * href/src/srcset against `baseUrl`, and close every open element. Output is cut
+ * on an element boundary so it stays under `maxLength` characters.
+ */
+export function sanitizeHtml(html: string, baseUrl: string | undefined, maxLength: number): string {
+  let output = '';
+  let truncated = false;
+  const open: string[] = [];
+  // Inside a dropped element: its name and nesting depth
+  let dropping: { tag: string; depth: number } | null = null;
+
+  const closingLength = () => open.reduce((sum, tag) => sum + tag.length + 3, 0);
+  const append = (chunk: string): boolean => {
+    // Leave room for the closing tags and the "..." marker
+    if (output.length + chunk.length + closingLength() + 3 > maxLength) {
+      truncated = true;
+      return false;
+    }
+    output += chunk;
+    return true;
+  };
+
+  let position = 0;
+  while (position < html.length && !truncated) {
+    TOKEN_PATTERN.lastIndex = position;
+    const match = TOKEN_PATTERN.exec(html);
+    const next = match ? match.index : html.length;
+
+    // Text before the next tag; a "<" that doesn't start a tag is literal
+    if (next > position && !dropping) {
+      const text = escapeText(html.substring(position, next));
+      if (!append(text)) {
+        appendPartialText(text);
+        break;
+      }
+    }
+    if (!match) break;
+    position = match.index + match[0].length;
+
+    const [token, endName, startName, attributeText] = match;
+    if (!endName && !startName) {
+      // CDATA sections in HTML content are plain text
+      if (token.startsWith('<![CDATA[') && !dropping) {
+        const text = escapeText(decodeEntities(token.replace(/^<!\[CDATA\[|\]\]>$/g, '')));
+        if (!append(text)) appendPartialText(text);
+      }
+      continue;
+    }
+
+    const tag = (endName || startName).toLowerCase();
+    const selfClosing = !!startName && (VOID_TAGS.has(tag) || /\/\s*$/.test(attributeText));
+
+    if (dropping) {
+      if (tag === dropping.tag) {
+        if (endName) dropping.depth--;
+        else if (!selfClosing) dropping.depth++;
+        if (dropping.depth === 0) dropping = null;
+      }
+      continue;
+    }
+
+    if (DROPPED_TAGS.has(tag)) {
+      if (startName && !selfClosing) dropping = { tag, depth: 1 };
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (endName) {
+      const index = open.lastIndexOf(tag);
+      if (index === -1) continue;  // Stray end tag
+      // Closing an outer element implicitly closes the ones inside it
+      while (open.length > index) {
+        output += `</${open.pop()}>`;
+      }
+      continue;
+    }
+
+    const attributes = sanitizeAttributes(tag, attributeText, baseUrl);
+    if (attributes === null) continue;  // Tracking pixel or image without a source
+
+    if (!VOID_TAGS.has(tag)) {
+      if (!append(`<${tag}${attributes}>`)) break;
+      open.push(tag);
+    } else if (!append(`<${tag}${attributes}>`)) {
+      break;
+    }
+  }
+
+  // Cut mid-text: keep whole words up to the limit
+  function appendPartialText(text: string): void {
+    const room = maxLength - output.length - closingLength() - 3;
+    if (room <= 0) return;
+    const cut = text.substring(0, room).replace(/&[#\w]*$/, '').replace(/\s+\S*$/, '');
+    output += cut;
+  }
+
+  if (truncated) {
+    output = output.replace(/\s+$/, '') + '...';
+  }
+  while (open.length > 0) {
+    output += `</${open.pop()}>`;
+  }
+  return output.trim();
+}
+
+// Returns the serialized attributes, or null when the element should be dropped
+function sanitizeAttributes(tag: string, attributeText: string, baseUrl: string | undefined): string | null {
+  const allowed = TAG_ATTRIBUTES[tag] || [];
+  const attributes = new Map<string, string>();
+
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(attributeText)) !== null) {
+    const name = match[1].toLowerCase();
+    if (attributes.has(name)) continue;  // First occurrence wins, as in browsers
+    if (!GLOBAL_ATTRIBUTES.has(name) && !allowed.includes(name)) continue;
+
+    let value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (URL_ATTRIBUTES.has(name)) {
+      const resolved = resolveUrl(value, baseUrl, name === 'href');
+      if (!resolved) continue;
+      value = resolved;
+    } else if (name === 'srcset') {
+      value = resolveSrcset(value, baseUrl);
+      if (!value) continue;
+    }
+    attributes.set(name, value);
+  }
+
+  if (tag === 'img' && isTrackingPixel(attributes)) {
+    return null;
+  }
+  // Images without a usable source render as broken placeholders
+  if (tag === 'img' && !attributes.has('src') && !attributes.has('srcset')) {
+    return null;
+  }
+
+  return [...attributes].map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join('');
+}
+
+function isTrackingPixel(attributes: Map<string, string>): boolean {
+  const width = parseInt(attributes.get('width') || '');
+  const height = parseInt(attributes.get('height') || '');
+  if ((width >= 0 && width <= 1) || (height >= 0 && height <= 1)) {
+    return true;
+  }
+  const src = attributes.get('src') || '';
+  return TRACKER_PATTERNS.some(pattern => pattern.test(src));
+}
+
+/**
+ * Resolve a URL attribute against the base. Only http(s) survive, plus mailto:
+ * for links; javascript:, data: and anything unparseable are dropped.
+ */
+function resolveUrl(value: string, baseUrl: string | undefined, isLink: boolean): string | null {
+  // Browsers ignore whitespace and control characters in URLs, so "java\tscript:" still runs
+  const trimmed = value.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  if (!trimmed) return null;
+
+  let resolved: URL;
+  try {
+    resolved = new URL(trimmed, baseUrl);
+  } catch {
+    return null;
+  }
+  const allowed = isLink ? ['http:', 'https:', 'mailto:'] : ['http:', 'https:'];
+  return allowed.includes(resolved.protocol) ? resolved.toString() : null;
+}
+
+// srcset is "url [descriptor], url [descriptor], ..."
+function resolveSrcset(value: string, baseUrl: string | undefined): string {
+  return value
+    .split(/,\s+|,(?=\S+\s)/)
+    .map(candidate => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      const resolved = url ? resolveUrl(url, baseUrl, false) : null;
+      return resolved ? [resolved, ...descriptors].join(' ') : null;
+    })
+    .filter((candidate): candidate is string => candidate !== null)
+    .join(', ');
+}
+
+/**
+ * Resolve a possibly relative reference (e.g. `xml:base`) against a base URL,
+ * returning `base` unchanged when the reference is missing or unparseable.
+ */
+export function resolveBase(reference: unknown, base: string | undefined): string | undefined {
+  if (typeof reference !== 'string' || !reference.trim()) return base;
+  try {
+    return new URL(reference.trim(), base).toString();
+  } catch {
+    return base;
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1));
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Text is already HTML; only bare "<" and "&" that don't start markup need escaping
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!#x[0-9a-f]+;|#\d+;|\w+;)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape plain text (e.g. Atom `type="text"` content) so it can be stored as HTML.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,183 @@
+// Adaptive per-feed fetch scheduling
+// Each fetch computes feeds.next_fetch_at; the cron only queues feeds that are due.
+import { Env } from './types';
+
+// The cron runs every 15 minutes, so fetching more often is pointless
+const MIN_INTERVAL_SECONDS = 15 * 60;
+const MAX_INTERVAL_SECONDS = 24 * 60 * 60;
+const DEFAULT_INTERVAL_SECONDS = 60 * 60;
+
+// Entries sampled to estimate posting cadence
+const CADENCE_SAMPLE_SIZE = 20;
+
+// Weight of the latest fetch in the 304 moving average
+const NOT_MODIFIED_ALPHA = 0.2;
+
+// Failure backoff: MIN_INTERVAL_SECONDS doubled per consecutive failure, capped at a day
+const MAX_BACKOFF_SECONDS = 24 * 60 * 60;
+
+// Quarantine defaults (overridable via QUARANTINE_AFTER_ERRORS / QUARANTINE_PROBE_HOURS)
+const DEFAULT_QUARANTINE_AFTER_ERRORS = 10;
+const DEFAULT_QUARANTINE_PROBE_HOURS = 24;
+
+// Blogs without a post for this long are considered dormant
+const DORMANT_AFTER_DAYS = 30;
+const DORMANT_INTERVAL_SECONDS = 12 * 60 * 60;
+
+export interface FetchOutcome {
+  notModified: boolean;        // Upstream answered 304
+  maxAgeSeconds?: number;      // Cache-Control max-age
+  retryAfterSeconds?: number;  // Retry-After
+  refreshInterval?: number;    // Publisher's <ttl> / sy:updatePeriod in seconds
+}
+
+interface ScheduleState {
+  postIntervalHours: number | null;  // Average hours between recent posts
+  lastPostAgeHours: number | null;   // Hours since the newest post
+  notModifiedRate: number;           // Moving average of 304 responses (0-1)
+  publisherInterval: number | null;  // Last known <ttl> / sy:updatePeriod in seconds
+}
+
+/**
+ * Compute seconds until the next fetch.
+ * Polls roughly four times per average posting interval, stretched by up to 2x
+ * for feeds that mostly answer 304, then raised to any interval the publisher
+ * asked for. Dormant blogs fall back to twice a day.
+ */
+export function computeFetchInterval(state: ScheduleState, outcome: FetchOutcome): number {
+  let interval = state.postIntervalHours !== null
+    ? (state.postIntervalHours * 3600) / 4
+    : DEFAULT_INTERVAL_SECONDS;
+
+  interval *= 1 + state.notModifiedRate;
+
+  if (state.lastPostAgeHours !== null && state.lastPostAgeHours > DORMANT_AFTER_DAYS * 24) {
+    interval = Math.max(interval, DORMANT_INTERVAL_SECONDS);
+  }
+
+  // Publisher hints are minimums: never poll faster than asked
+  const hints = [outcome.maxAgeSeconds, outcome.retryAfterSeconds, state.publisherInterval];
+  for (const hint of hints) {
+    if (hint && hint > interval) interval = hint;
+  }
+
+  return Math.round(Math.min(Math.max(interval, MIN_INTERVAL_SECONDS), MAX_INTERVAL_SECONDS));
+}
+
+/**
+ * Update cadence statistics for a feed after a fetch and store its next_fetch_at.
+ */
+export async function scheduleNextFetch(
+  db: D1Database,
+  feedId: number,
+  outcome: FetchOutcome
+): Promise<string> {
+  const [feed, cadence] = await Promise.all([
+    db.prepare('SELECT not_modified_rate, publisher_interval FROM feeds WHERE id = ?')
+      .bind(feedId).first<{not_modified_rate: number | null; publisher_interval: number | null}>(),
+    db.prepare(`
+      SELECT COUNT(*) as count, MIN(published) as oldest, MAX(published) as newest
+      FROM (
+        SELECT published FROM entries
+        WHERE feed_id = ? AND published IS NOT NULL
+        ORDER BY published DESC
+        LIMIT ?
+      )
+    `).bind(feedId, CADENCE_SAMPLE_SIZE).first<{count: number; oldest: string | null; newest: string | null}>(),
+  ]);
+
+  const now = Date.now();
+  let postIntervalHours: number | null = null;
+  let lastPostAgeHours: number | null = null;
+
+  if (cadence?.newest) {
+    lastPostAgeHours = Math.max(0, (now - new Date(cadence.newest).getTime()) / 3600000);
+  }
+  if (cadence && cadence.count > 1 && cadence.oldest && cadence.newest) {
+    const spanHours = (new Date(cadence.newest).getTime() - new Date(cadence.oldest).getTime()) / 3600000;
+    postIntervalHours = spanHours / (cadence.count - 1);
+  }
+
+  const previousRate = feed?.not_modified_rate ?? 0;
+  const notModifiedRate = previousRate * (1 - NOT_MODIFIED_ALPHA) + (outcome.notModified ? NOT_MODIFIED_ALPHA : 0);
+
+  // 304 responses have no body, so keep the last known publisher interval
+  const publisherInterval = outcome.refreshInterval ?? feed?.publisher_interval ?? null;
+
+  const interval = computeFetchInterval(
+    { postIntervalHours, lastPostAgeHours, notModifiedRate, publisherInterval },
+    outcome
+  );
+  const nextFetchAt = new Date(now + interval * 1000).toISOString();
+
+  await db.prepare(`
+    UPDATE feeds SET
+      next_fetch_at = ?,
+      post_interval_hours = ?,
+      not_modified_rate = ?,
+      publisher_interval = ?
+    WHERE id = ?
+  `).bind(nextFetchAt, postIntervalHours, notModifiedRate, publisherInterval, feedId).run();
+
+  return nextFetchAt;
+}
+
+/**
+ * Back off after a failed fetch and quarantine feeds that keep failing.
+ * `errorCount` is the number of consecutive failures including this one.
+ * Quarantined feeds are only probed every QUARANTINE_PROBE_HOURS until a fetch succeeds.
+ */
+export async function scheduleAfterFailure(
+  env: Env,
+  feedId: number,
+  errorCount: number,
+  retryAfterSeconds?: number
+): Promise<{ nextFetchAt: string; quarantined: boolean }> {
+  const threshold = parseInt(env.QUARANTINE_AFTER_ERRORS || '') || DEFAULT_QUARANTINE_AFTER_ERRORS;
+  const probeHours = parseInt(env.QUARANTINE_PROBE_HOURS || '') || DEFAULT_QUARANTINE_PROBE_HOURS;
+  const now = new Date();
+  const quarantined = errorCount >= threshold;
+
+  let delay = quarantined
+    ? probeHours * 3600
+    : Math.min(MIN_INTERVAL_SECONDS * 2 ** Math.max(errorCount - 1, 0), MAX_BACKOFF_SECONDS);
+  if (retryAfterSeconds && retryAfterSeconds > delay) {
+    delay = Math.min(retryAfterSeconds, MAX_BACKOFF_SECONDS);
+  }
+  const nextFetchAt = new Date(now.getTime() + delay * 1000).toISOString();
+
+  // Keep the original quarantine time across probe failures
+  await env.DB.prepare(`
+    UPDATE feeds SET
+      next_fetch_at = ?,
+      quarantined_at = CASE WHEN ? THEN COALESCE(quarantined_at, ?) ELSE quarantined_at END
+    WHERE id = ?
+  `).bind(nextFetchAt, quarantined ? 1 : 0, now.toISOString(), feedId).run();
+
+  return { nextFetchAt, quarantined };
+}
+
+/**
+ * Read scheduling hints from upstream response headers.
+ */
+export function parseCacheHeaders(headers: Headers): Pick<FetchOutcome, 'maxAgeSeconds' | 'retryAfterSeconds'> {
+  let maxAgeSeconds: number | undefined;
+  const cacheControl = headers.get('Cache-Control');
+  if (cacheControl) {
+    const match = cacheControl.match(/(?:^|[,\s])max-age\s*=\s*"?(\d+)"?/i);
+    if (match) maxAgeSeconds = parseInt(match[1]);
+  }
+
+  return { maxAgeSeconds, retryAfterSeconds: parseRetryAfter(headers.get('Retry-After')) };
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value.trim());
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  return Math.max(0, Math.round((date.getTime() - Date.now()) / 1000));
+}
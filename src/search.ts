@@ -0,0 +1,237 @@
+// Full-text search over stored entries using the SQLite FTS5 table `entries_fts`
+import { Env, EntryWithFeed, ParsedFeedItem } from './types';
+import { stripHtml } from './parser';
+import { normalizeDomain } from './domains';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 200;
+const MAX_QUERY_TERMS = 10;
+
+// Control characters used as highlight markers inside FTS5 snippets.
+// They can't occur in indexed text, so they are swapped for <mark> after escaping.
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+
+export interface SearchParams {
+  query: string;
+  feed?: string;   // Feed id or domain
+  since?: string;  // ISO date, only entries published at or after it
+  limit: number;
+  offset: number;
+}
+
+export interface SearchHit {
+  id: string;
+  title: string;          // HTML-escaped with <mark> highlights
+  snippet: string;        // HTML-escaped with <mark> highlights
+  link: string;
+  permalink: string | null;
+  published: string | null;
+  author: string | null;
+  feed_id: number;
+  feed_name: string;
+  feed_rank: number | null;
+}
+
+/**
+ * Parse and validate `/api/search` query parameters:
+ * `q` (required), `feed` (id or domain), `since` (date), `limit`, `offset`.
+ */
+export function parseSearchParams(params: URLSearchParams): { search?: SearchParams; error?: string } {
+  const query = (params.get('q') || '').trim();
+  if (!query) {
+    return { error: 'q is required' };
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return { error: `q must be at most ${MAX_QUERY_LENGTH} characters` };
+  }
+  if (!buildMatchExpression(query)) {
+    return { error: 'q must contain at least one word' };
+  }
+
+  let since: string | undefined;
+  const sinceParam = params.get('since');
+  if (sinceParam) {
+    const date = new Date(sinceParam);
+    if (isNaN(date.getTime())) {
+      return { error: 'since must be a valid date' };
+    }
+    since = date.toISOString();
+  }
+
+  const limitParam = params.get('limit');
+  const offsetParam = params.get('offset');
+  if (limitParam !== null && !/^\d+$/.test(limitParam)) {
+    return { error: 'limit must be a number' };
+  }
+  if (offsetParam !== null && !/^\d+$/.test(offsetParam)) {
+    return { error: 'offset must be a non-negative integer' };
+  }
+  const limit = limitParam !== null ? parseInt(limitParam) : DEFAULT_PAGE_SIZE;
+  const offset = offsetParam !== null ? parseInt(offsetParam) : 0;
+  if (limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be within 1-${MAX_PAGE_SIZE}` };
+  }
+  if (!Number.isSafeInteger(offset)) {
+    return { error: 'offset is too large' };
+  }
+
+  const feedParam = params.get('feed');
+  const feed = feedParam ? normalizeDomain(feedParam) || undefined : undefined;
+
+  return { search: { query, feed, since, limit, offset } };
+}
+
+/**
+ * Convert free-form user input into a safe FTS5 MATCH expression.
+ * Each word becomes a quoted phrase (all must match); a trailing * keeps prefix search.
+ * Returns null when the input has no searchable words.
+ */
+export function buildMatchExpression(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map(term => {
+      const prefix = term.endsWith('*');
+      const word = term.replace(/["*]/g, '').trim();
+      if (!word) return null;
+      return `"${word}"${prefix ? '*' : ''}`;
+    })
+    .filter((term): term is string => term !== null)
+    .slice(0, MAX_QUERY_TERMS);
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Ranked, paginated search. Title matches weigh more than summary, summary more than content.
+ */
+export async function searchEntries(
+  env: Env,
+  search: SearchParams
+): Promise<{ total: number; hits: SearchHit[] }> {
+  const match = buildMatchExpression(search.query)!;
+  const { sql: filterSql, params: filterParams } = buildSearchFilter(search);
+
+  const [countResult, hitsResult] = await Promise.all([
+    env.DB.prepare(`
+      SELECT COUNT(*) as count
+      FROM entries_fts
+      JOIN entries e ON e.id = entries_fts.entry_id
+      JOIN feeds f ON e.feed_id = f.id
+      WHERE entries_fts MATCH ?
+      ${filterSql}
+    `).bind(match, ...filterParams).first<{count: number}>(),
+
+    env.DB.prepare(`
+      SELECT e.id, e.link, e.permalink, e.published, e.author, e.feed_id,
+             f.name as feed_name, f.rank as feed_rank,
+             highlight(entries_fts, 1, ?, ?) as title,
+             snippet(entries_fts, -1, ?, ?, '…', 32) as snippet
+      FROM entries_fts
+      JOIN entries e ON e.id = entries_fts.entry_id
+      JOIN feeds f ON e.feed_id = f.id
+      WHERE entries_fts MATCH ?
+      ${filterSql}
+      ORDER BY bm25(entries_fts, 0.0, 10.0, 4.0, 1.0, 2.0)
+      LIMIT ? OFFSET ?
+    `).bind(
+      MARK_START, MARK_END, MARK_START, MARK_END,
+      match, ...filterParams, search.limit, search.offset
+    ).all<SearchHit>(),
+  ]);
+
+  const hits = (hitsResult.results || []).map(hit => ({
+    ...hit,
+    title: highlightToHtml(hit.title),
+    snippet: highlightToHtml(hit.snippet),
+  }));
+
+  return { total: countResult?.count || 0, hits };
+}
+
+/**
+ * Most recent entries matching a query, for saved-search feeds.
+ * Ordered by date rather than relevance so readers see new matches at the top.
+ */
+export async function findMatchingEntries(
+  env: Env,
+  query: string,
+  limit: number
+): Promise<EntryWithFeed[]> {
+  const match = buildMatchExpression(query);
+  if (!match) return [];
+
+  const result = await env.DB.prepare(`
+    SELECT e.*, f.name as feed_name, f.rank as feed_rank
+    FROM entries_fts
+    JOIN entries e ON e.id = entries_fts.entry_id
+    JOIN feeds f ON e.feed_id = f.id
+    WHERE entries_fts MATCH ?
+    ORDER BY e.published DESC NULLS LAST
+    LIMIT ?
+  `).bind(match, limit).all<EntryWithFeed>();
+
+  return result.results || [];
+}
+
+/**
+ * Add a newly stored entry to the search index.
+ * Content is indexed as plain text so markup doesn't pollute matches or snippets.
+ */
+export async function indexEntry(db: D1Database, entryId: string, item: ParsedFeedItem): Promise<void> {
+  await db.prepare(`
+    INSERT INTO entries_fts (entry_id, title, summary, content, tags)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(
+    entryId,
+    item.title,
+    item.summary ? stripHtml(item.summary) : null,
+    item.content ? stripHtml(item.content) : null,
+    item.tags && item.tags.length > 0 ? item.tags.join(' ') : null
+  ).run();
+}
+
+/**
+ * Remove index rows for entries created before the cutoff.
+ * Must run before the entries themselves are deleted.
+ */
+export async function unindexEntriesBefore(db: D1Database, cutoff: string): Promise<void> {
+  await db.prepare(`
+    DELETE FROM entries_fts
+    WHERE entry_id IN (SELECT id FROM entries WHERE created_at < ?)
+  `).bind(cutoff).run();
+}
+
+function buildSearchFilter(search: SearchParams): { sql: string; params: (string | number)[] } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (search.feed) {
+    if (/^\d+$/.test(search.feed)) {
+      conditions.push('AND f.id = ?');
+      params.push(parseInt(search.feed));
+    } else {
+      conditions.push('AND f.domain = ?');
+      params.push(search.feed);
+    }
+  }
+  if (search.since) {
+    conditions.push('AND e.published >= ?');
+    params.push(search.since);
+  }
+
+  return { sql: conditions.join(' '), params };
+}
+
+// Escape HTML, then turn FTS5 highlight markers into <mark> tags
+function highlightToHtml(text: string | null): string {
+  if (!text) return '';
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replaceAll(MARK_START, '<mark>')
+    .replaceAll(MARK_END, '</mark>');
+}
@@ -0,0 +1,269 @@
+// SSRF protection: IP/CIDR classification of URL hosts, with optional DNS-over-HTTPS resolution
+import { Env } from './types';
+import { FeedFetchError } from './errors';
+
+// Special-purpose IPv4 ranges (RFC 6890 and successors) that must never be fetched
+const BLOCKED_IPV4_CIDRS = [
+  '0.0.0.0/8',          // "This" network
+  '10.0.0.0/8',         // Private
+  '100.64.0.0/10',      // Carrier-grade NAT
+  '127.0.0.0/8',        // Loopback
+  '169.254.0.0/16',     // Link-local (incl. cloud metadata endpoints)
+  '172.16.0.0/12',      // Private
+  '192.0.0.0/24',       // IETF protocol assignments
+  '192.0.2.0/24',       // TEST-NET-1
+  '192.88.99.0/24',     // 6to4 relay anycast
+  '192.168.0.0/16',     // Private
+  '198.18.0.0/15',      // Benchmarking
+  '198.51.100.0/24',    // TEST-NET-2
+  '203.0.113.0/24',     // TEST-NET-3
+  '224.0.0.0/4',        // Multicast
+  '240.0.0.0/4',        // Reserved, incl. broadcast
+];
+
+const BLOCKED_IPV6_CIDRS = [
+  '::/128',             // Unspecified
+  '::1/128',            // Loopback
+  '::/96',              // IPv4-compatible (deprecated)
+  '100::/64',           // Discard
+  '2001::/23',          // IETF protocol assignments (incl. Teredo)
+  '2001:db8::/32',      // Documentation
+  'fc00::/7',           // Unique local
+  'fe80::/10',          // Link-local
+  'fec0::/10',          // Site-local (deprecated)
+  'ff00::/8',           // Multicast
+];
+
+// IPv6 ranges that embed an IPv4 address, checked against the IPv4 table
+const EMBEDDED_IPV4_PREFIXES: { cidr: string; offset: number }[] = [
+  { cidr: '::ffff:0:0/96', offset: 96 },     // IPv4-mapped
+  { cidr: '64:ff9b::/96', offset: 96 },      // NAT64
+  { cidr: '64:ff9b:1::/48', offset: 96 },    // Local-use NAT64
+  { cidr: '2002::/16', offset: 16 },         // 6to4
+];
+
+const BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal', '.localdomain', '.home.arpa', '.lan'];
+
+// Resolved answers are cached per isolate, bounded by the record TTL
+const MAX_DNS_CACHE_SECONDS = 300;
+const DOH_TIMEOUT_MS = 5000;
+
+interface Cidr {
+  version: 4 | 6;
+  network: bigint;
+  prefix: number;
+}
+
+const blockedV4 = BLOCKED_IPV4_CIDRS.map(cidr => parseCidr(cidr)!);
+const blockedV6 = BLOCKED_IPV6_CIDRS.map(cidr => parseCidr(cidr)!);
+const embeddedV4 = EMBEDDED_IPV4_PREFIXES.map(({ cidr, offset }) => ({ range: parseCidr(cidr)!, offset }));
+
+const dnsCache = new Map<string, { addresses: string[]; expires: number }>();
+
+/**
+ * Parse an IPv4 address the way URL parsers and inet_aton do: one to four parts,
+ * each decimal, octal (leading 0) or hex (0x), so `2130706433`, `0177.1` and
+ * `0x7f.0.0.1` all yield 127.0.0.1. Returns the 32-bit value, or null.
+ */
+export function parseIPv4(host: string): bigint | null {
+  const parts = host.split('.');
+  if (parts[parts.length - 1] === '') parts.pop();  // Trailing dot
+  if (parts.length === 0 || parts.length > 4) return null;
+
+  const values: bigint[] = [];
+  for (const part of parts) {
+    let value: bigint;
+    if (/^0x[0-9a-f]*$/i.test(part)) {
+      value = part.length > 2 ? BigInt(part) : 0n;
+    } else if (/^0[0-7]+$/.test(part)) {
+      value = BigInt(`0o${part.substring(1)}`);
+    } else if (/^(0|[1-9][0-9]*)$/.test(part)) {
+      value = BigInt(part);
+    } else {
+      return null;
+    }
+    values.push(value);
+  }
+
+  // Every part but the last is one byte; the last fills the remaining bytes
+  const last = values.pop()!;
+  if (values.some(value => value > 255n)) return null;
+  if (last >= 1n << BigInt(8 * (4 - values.length))) return null;
+
+  return values.reduce((acc, value, i) => acc | (value << BigInt(8 * (3 - i))), last);
+}
+
+/**
+ * Parse an IPv6 address (without brackets or zone), including `::` compression and
+ * a trailing dotted IPv4. Returns the 128-bit value, or null.
+ */
+export function parseIPv6(host: string): bigint | null {
+  let address = host.split('%')[0].toLowerCase();
+  if (!/^[0-9a-f:.]+$/.test(address)) return null;
+
+  // Trailing dotted IPv4 becomes two groups
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (!/^(\d{1,3}\.){3}\d{1,3}$/.test(dotted[2])) return null;
+    const v4 = parseIPv4(dotted[2]);
+    if (v4 === null) return null;
+    address = `${dotted[1]}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+function parseCidr(cidr: string): Cidr | null {
+  const [address, prefixText] = cidr.split('/');
+  const prefix = parseInt(prefixText);
+  if (address.includes(':')) {
+    const network = parseIPv6(address);
+    return network === null ? null : { version: 6, network, prefix };
+  }
+  const network = parseIPv4(address);
+  return network === null ? null : { version: 4, network, prefix };
+}
+
+function inCidr(value: bigint, cidr: Cidr): boolean {
+  const bits = cidr.version === 4 ? 32 : 128;
+  const shift = BigInt(bits - cidr.prefix);
+  return (value >> shift) === (cidr.network >> shift);
+}
+
+export function isBlockedIPv4(value: bigint): boolean {
+  return blockedV4.some(cidr => inCidr(value, cidr));
+}
+
+export function isBlockedIPv6(value: bigint): boolean {
+  if (blockedV6.some(cidr => inCidr(value, cidr))) return true;
+  for (const { range, offset } of embeddedV4) {
+    if (inCidr(value, range)) {
+      return isBlockedIPv4((value >> BigInt(128 - offset - 32)) & 0xffffffffn);
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether an IP literal (v4 in any encoding, or v6 with or without brackets) is
+ * in a non-public range. Returns null when `host` isn't an IP literal.
+ */
+export function isBlockedIP(host: string): boolean | null {
+  const bare = host.replace(/^\[|\]$/g, '');
+  if (bare.includes(':')) {
+    const v6 = parseIPv6(bare);
+    return v6 === null ? true : isBlockedIPv6(v6);  // Unparseable v6 literal: refuse
+  }
+  const v4 = parseIPv4(bare);
+  return v4 === null ? null : isBlockedIPv4(v4);
+}
+
+/**
+ * Static check of a URL: http(s) only, and a host that is neither an internal
+ * name nor a non-public IP literal. Doesn't resolve DNS.
+ */
+export function isPublicUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) return false;
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (!hostname || hostname === 'localhost') return false;
+  if (BLOCKED_HOSTNAME_SUFFIXES.some(suffix => hostname.endsWith(suffix))) return false;
+
+  const blocked = isBlockedIP(hostname);
+  if (blocked !== null) return !blocked;
+
+  // Hex-looking last labels (e.g. `0x7f`) are numeric hosts that failed to parse
+  const lastLabel = hostname.split('.').pop()!;
+  if (/^(0x[0-9a-f]*|\d+)$/i.test(lastLabel)) return false;
+
+  // Single-label names only resolve on internal networks
+  return hostname.includes('.');
+}
+
+/**
+ * Throw FeedFetchError('blocked_url') unless the URL passes isPublicUrl and, when
+ * SSRF_DOH_URL is set, every A/AAAA record of its hostname is public.
+ * Resolution failures are reported as 'dns' so the fetch is retried.
+ */
+export async function assertPublicUrl(env: Env, url: string): Promise<void> {
+  if (!isPublicUrl(url)) {
+    throw new FeedFetchError('blocked_url', `Invalid or blocked URL: ${url}`);
+  }
+  if (!env.SSRF_DOH_URL) return;
+
+  const hostname = new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+  if (isBlockedIP(hostname) !== null) return;  // IP literal already checked
+
+  const addresses = await resolveHost(env.SSRF_DOH_URL, hostname);
+  if (addresses.length === 0) {
+    throw new FeedFetchError('dns', `${hostname} did not resolve`);
+  }
+  const blocked = addresses.find(address => isBlockedIP(address) !== false);
+  if (blocked) {
+    throw new FeedFetchError('blocked_url', `${hostname} resolves to non-public address ${blocked}`);
+  }
+}
+
+// Resolve A and AAAA records through a DoH JSON endpoint (e.g. https://cloudflare-dns.com/dns-query)
+async function resolveHost(dohUrl: string, hostname: string): Promise<string[]> {
+  const cached = dnsCache.get(hostname);
+  if (cached && cached.expires > Date.now()) {
+    return cached.addresses;
+  }
+
+  const answers = await Promise.all(['A', 'AAAA'].map(async type => {
+    const query = new URL(dohUrl);
+    query.searchParams.set('name', hostname);
+    query.searchParams.set('type', type);
+
+    let data: { Status?: number; Answer?: { type: number; data: string; TTL: number }[] };
+    try {
+      const response = await fetch(query.toString(), {
+        headers: { 'Accept': 'application/dns-json' },
+        signal: AbortSignal.timeout(DOH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      data = await response.json();
+    } catch (error) {
+      throw new FeedFetchError('dns', `DNS lookup for ${hostname} failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+    // Any status but NOERROR (SERVFAIL, REFUSED, ...) leaves the answer unknown
+    if (data.Status !== 0) {
+      throw new FeedFetchError('dns', `DNS lookup for ${hostname} failed: status ${data.Status ?? 'missing'}`);
+    }
+
+    // Only address records; CNAMEs in the chain are followed by the resolver
+    return (data.Answer || []).filter(answer => answer.type === 1 || answer.type === 28);
+  }));
+
+  const records = answers.flat();
+  const addresses = records.map(record => record.data);
+  // An empty answer fails the fetch; don't keep failing it from the cache
+  if (addresses.length > 0) {
+    const ttl = Math.min(MAX_DNS_CACHE_SECONDS, ...records.map(record => record.TTL));
+    dnsCache.set(hostname, { addresses, expires: Date.now() + ttl * 1000 });
+  }
+
+  return addresses;
+}
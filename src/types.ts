@@ -4,11 +4,24 @@ export interface Env {
   DB: D1Database;
   CACHE: KVNamespace;
   FEED_QUEUE: Queue<FeedFetchMessage>;
+  DEAD_LETTER_QUEUE: Queue<DeadLetterMessage>;
   FEEDS_BUCKET: R2Bucket;
   ITEMS_PER_FEED: string;
   RETENTION_DAYS: string;
   BASE_URL: string;  // Base URL for feed self-links
   ADMIN_TOKEN?: string;  // Secret for API auth
+  QUARANTINE_AFTER_ERRORS?: string;  // Consecutive failures before a feed is quarantined
+  QUARANTINE_PROBE_HOURS?: string;   // Hours between probe fetches of quarantined feeds
+  FETCH_LOG_RETENTION_DAYS?: string; // Days of per-fetch history kept in fetch_log
+  WEBHOOK_URLS?: string;        // Comma-separated stale-feed notification endpoints
+  WEBHOOK_SECRET?: string;      // HMAC key for signing webhook payloads
+  STALE_ENTRY_DAYS?: string;    // Alert when a source has no new entry for this long
+  STALE_FETCH_HOURS?: string;   // Alert when a source has no successful fetch for this long
+  ALERT_REPEAT_HOURS?: string;  // Re-send still-active alerts after this long
+  COLLAPSE_DUPLICATES?: string; // "false" disables collapsing entries about the same article
+  MAX_FEED_BYTES?: string;      // Largest feed body read (after decompression)
+  SSRF_DOH_URL?: string;        // DNS-over-HTTPS JSON endpoint; when set, hostnames must resolve to public IPs
+  REDIRECT_CONFIRMATIONS?: string;  // Consecutive permanent redirects before feeds.url is updated
 }
 
 export interface Feed {
@@ -17,28 +30,46 @@ export interface Feed {
   url: string;
   domain: string | null;
   rank: number | null;
+  disabled: number;  // 1 = excluded from scheduled fetches
   etag: string | null;
   last_modified: string | null;
   last_fetched: string | null;
   fetch_count: number;
   error_count: number;
   last_error: string | null;
+  last_error_category: FetchErrorCategory | null;
+  next_fetch_at: string | null;        // Adaptive schedule; NULL = due now
+  quarantined_at: string | null;       // Set after repeated failures; only probe fetches run
+  post_interval_hours: number | null;  // Average hours between recent posts
+  not_modified_rate: number;           // Moving average of 304 responses (0-1)
+  publisher_interval: number | null;   // <ttl> / sy:updatePeriod in seconds
+  last_success_at: string | null;      // Last fetch that succeeded (200 or 304)
+  last_new_entry_at: string | null;    // Last fetch that stored a new entry
+  moved_to: string | null;             // Target of a permanent redirect of url, pending confirmation
+  moved_count: number;                 // Consecutive fetches that saw the moved_to redirect
+  id_churn_count: number;              // Entries whose upstream id changed while their link didn't
+  last_id_churn_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export interface Entry {
   id: string;
+  guid: string | null;  // Upstream id, unique within the feed
   feed_id: number;
   title: string;
   link: string;
   permalink: string | null;  // Blog's own URL (for linkblogs)
   published: string | null;
+  date_inferred: number;     // 1 = published isn't the item's own publication date
   updated: string | null;
   summary: string | null;
   content: string | null;
   author: string | null;
   tags: string | null; // JSON array
+  enclosures: string | null;  // JSON array of ParsedEnclosure
+  thumbnail: string | null;
+  canonical_url: string | null;  // canonicalUrlKey(link), shared by entries about the same article; null without a link of its own
   created_at: string;
 }
 
@@ -55,22 +86,73 @@ export interface FeedFetchMessage {
   lastModified?: string;
 }
 
+// Messages on the dead-letter queue. Explicitly dead-lettered messages carry
+// failure details; ones moved there after max_retries are bare FeedFetchMessages.
+export interface DeadLetterMessage extends FeedFetchMessage {
+  failure?: {
+    attempts: number;
+    error?: string;
+    errorCategory?: FetchErrorCategory;
+    failedAt: string;
+  };
+}
+
+export type FetchErrorCategory =
+  | 'dns'
+  | 'tls'
+  | 'timeout'
+  | 'network'
+  | 'http_4xx'
+  | 'http_5xx'
+  | 'rate_limited'  // HTTP 429, usually with Retry-After
+  | 'parse'
+  | 'blocked_url'   // Failed the SSRF check
+  | 'redirect'      // Too many redirects or an invalid Location
+  | 'too_large'     // Body exceeded MAX_FEED_BYTES
+  | 'not_feed'      // HTML page or non-feed content type
+  | 'empty_feed'
+  | 'unknown';
+
+export interface FetchResult {
+  success: boolean;
+  newEntries: number;
+  updatedEntries: number;  // Existing entries whose content changed upstream
+  error?: string;
+  errorCategory?: FetchErrorCategory;
+  retryAfterSeconds?: number;
+}
+
 export interface ParsedFeedItem {
   id: string;
   title: string;
   link: string;
+  linkInferred?: boolean;  // The item has no link of its own; link is the feed URL
   permalink?: string;  // Blog's own URL (for linkblogs like Daring Fireball)
-  published?: string;
+  published?: string;  // Unset when no plausible date was found (dated when first stored)
   updated?: string;
+  dateInferred?: boolean;  // published isn't the item's own publication date
   summary?: string;
   content?: string;
   author?: string;
   tags?: string[];
+  enclosures?: ParsedEnclosure[];  // Podcast audio, video and attached images
+  thumbnail?: string;              // Preview image (media:thumbnail, itunes:image, ...)
 }
 
+export interface ParsedEnclosure {
+  url: string;
+  type?: string;    // MIME type
+  length?: number;  // Size in bytes
+}
+
+// Format of a fetched source feed; generated feeds use FeedFormat in generator.ts
+export type SourceFormat = 'rss' | 'atom' | 'rdf' | 'json';
+
 export interface ParsedFeed {
   title: string;
+  format: SourceFormat;
   items: ParsedFeedItem[];
+  refreshInterval?: number;  // Publisher's requested refresh interval in seconds (<ttl>, sy:updatePeriod)
 }
 
 /**
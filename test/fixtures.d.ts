@@ -0,0 +1,5 @@
+// Fixture files imported as text through Vite's `?raw` suffix
+declare module '*?raw' {
+  const content: string;
+  export default content;
+}
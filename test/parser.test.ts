@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { parseFeed } from '../src/parser';
+import { readFeedBody } from '../src/body';
+import { FeedParseError } from '../src/errors';
+
+// Real-world feed shapes, trimmed to a few items each
+import atomXhtml from './fixtures/feeds/atom-xhtml.xml?raw';
+import atomXmlBase from './fixtures/feeds/atom-xml-base.xml?raw';
+import htmlPage from './fixtures/feeds/html-page.html?raw';
+import hugoAtom from './fixtures/feeds/hugo-atom.xml?raw';
+import jsonfeed10 from './fixtures/feeds/jsonfeed-1.0.json?raw';
+import jsonfeed11 from './fixtures/feeds/jsonfeed-1.1.json?raw';
+import prefixedAtom from './fixtures/feeds/prefixed-atom.xml?raw';
+import rssMediaThumbnail from './fixtures/feeds/rss-media-thumbnail.xml?raw';
+import rss1Rdf from './fixtures/feeds/rss1-rdf.xml?raw';
+import wordpressRss2 from './fixtures/feeds/wordpress-rss2.xml?raw';
+import youtubeMediaRss from './fixtures/feeds/youtube-media-rss.xml?raw';
+
+describe('parseFeed', () => {
+  it('parses a WordPress RSS 2.0 feed', async () => {
+    const feed = await parseFeed(wordpressRss2, 'https://blog.example.com/feed/');
+    expect(feed.format).toBe('rss');
+    expect(feed.title).toBe('Example Engineering Blog');
+    expect(feed.refreshInterval).toBe(3600);
+
+    const [post, episode] = feed.items;
+    expect(post.id).toBe('https://blog.example.com/?p=1234');
+    expect(post.title).toBe('Postgres “vacuum” explained');
+    // `&#038;` decoded, then utm_* parameters stripped
+    expect(post.link).toBe('https://blog.example.com/2024/09/postgres-vacuum/');
+    expect(post.published).toBe('2024-09-03T14:05:12.000Z');
+    expect(post.dateInferred).toBe(false);
+    expect(post.author).toBe('Jane Doe');
+    expect(post.tags).toEqual(['Databases', 'Postgres']);
+    expect(post.summary).toContain('<a href="https://blog.example.com/2024/09/postgres-vacuum/">Read more</a>');
+    expect(post.content).toContain('<img src="https://blog.example.com/wp-content/uploads/vacuum.png" alt="diagram">');
+    expect(post.content).not.toMatch(/script|onerror|pixel\.wp\.com/);
+
+    expect(episode.published).toBe('2024-08-26T13:00:00.000Z');  // EDT
+    expect(episode.enclosures).toEqual([
+      { url: 'https://media.example.com/ep12.mp3', type: 'audio/mpeg', length: 48213000 },
+    ]);
+  });
+
+  it('parses an Atom feed', async () => {
+    const feed = await parseFeed(hugoAtom, 'https://smallsystems.example/atom.xml');
+    expect(feed.format).toBe('atom');
+
+    const [post, plain] = feed.items;
+    expect(post.id).toBe('tag:smallsystems.example,2024:/posts/fsync/');
+    expect(post.title).toBe('Shipping fsync safely');
+    expect(post.link).toBe('https://smallsystems.example/posts/fsync/');
+    expect(post.published).toBe('2024-09-01T08:00:00.000Z');
+    expect(post.updated).toBe('2024-09-02T06:30:00.000Z');
+    expect(post.summary).toBe('<p>What <code>fsync</code> promises.</p>');
+    expect(post.content).toBe('<p>Full text with a <a href="https://smallsystems.example/posts/ext4/">link</a>.</p>');
+    expect(post.tags).toEqual(['storage', 'linux']);
+
+    // type="text" content is escaped, not interpreted as markup
+    expect(plain.content).toBe("1 &lt; 2 &amp; that's fine");
+    // Only <updated>: dated from it and flagged as inferred
+    expect(plain.published).toBe('2024-08-20T12:00:00.000Z');
+    expect(plain.dateInferred).toBe(true);
+  });
+
+  it('parses Atom with a prefixed root element', async () => {
+    const feed = await parseFeed(prefixedAtom, 'https://prefixed.example/feed');
+    expect(feed.format).toBe('atom');
+    expect(feed.title).toBe('Prefixed Feed');
+    expect(feed.items).toHaveLength(1);
+    expect(feed.items[0]).toMatchObject({
+      id: 'urn:uuid:1225c695-cfb8-4ebb-aaaa-80da344efa6a',
+      title: 'Namespaced entry',
+      link: 'https://prefixed.example/namespaced',
+      summary: 'Entries in a prefixed Atom document.',
+    });
+  });
+
+  it('unwraps type="xhtml" content', async () => {
+    const feed = await parseFeed(atomXhtml, 'https://xhtml.example/feed');
+    expect(feed.items[0].content).toBe(
+      '<p>This is <strong>XHTML</strong> content with <em>prefixed</em> markup.</p>'
+    );
+  });
+
+  it('resolves relative URLs against xml:base', async () => {
+    const feed = await parseFeed(atomXmlBase, 'https://base.example/blog/atom.xml');
+    const [feedBase, entryBase] = feed.items;
+    expect(feedBase.link).toBe('https://base.example/blog/posts/one.html');
+    expect(feedBase.content).toBe('<img src="https://base.example/blog/images/one.png">');
+    expect(entryBase.link).toBe('https://cdn.example/archive/two.html');
+    expect(entryBase.content).toBe('<a href="https://cdn.example/about">About</a>');
+  });
+
+  it('parses RSS 1.0 (RDF)', async () => {
+    const feed = await parseFeed(rss1Rdf, 'https://rdf.example/index.rdf');
+    expect(feed.format).toBe('rdf');
+    expect(feed.title).toBe('RDF Site Summary');
+    expect(feed.refreshInterval).toBe(43200);
+    expect(feed.items[0]).toMatchObject({
+      id: 'https://rdf.example/2024/03/first',  // rdf:about
+      link: 'https://rdf.example/2024/03/first',
+      published: '2024-03-10T07:00:00.000Z',  // dc:date
+      summary: 'Described in RDF.',
+      author: 'Rita Dee',
+    });
+  });
+
+  it('parses JSON Feed 1.0', async () => {
+    const feed = await parseFeed(jsonfeed10, 'https://json1.example/feed.json');
+    expect(feed.format).toBe('json');
+    expect(feed.items[0]).toMatchObject({
+      id: '2',
+      link: 'https://json1.example/2',
+      published: '2024-02-02T15:00:00.000Z',
+      content: 'Line one<br>Line two &lt;not a tag&gt;',
+      author: 'Old Style Author',
+    });
+  });
+
+  it('parses JSON Feed 1.1', async () => {
+    const feed = await parseFeed(jsonfeed11, 'https://json11.example/feed.json');
+    expect(feed.format).toBe('json');
+
+    const [linked, photo] = feed.items;
+    // external_url is the article, url the blog's own post
+    expect(linked.link).toBe('https://elsewhere.example/article');
+    expect(linked.permalink).toBe('https://json11.example/linked');
+    expect(linked.linkInferred).toBe(false);
+    expect(linked.content).toBe('<p>Commentary on <a href="https://json11.example/other">another post</a>.</p>');
+    expect(linked.updated).toBe('2024-01-16T09:30:00.000Z');
+    expect(linked.author).toBe('Ada');
+    expect(linked.tags).toEqual(['links', 'meta']);
+    expect(linked.enclosures).toEqual([
+      { url: 'https://json11.example/talk.mp4', type: 'video/mp4', length: 1048576 },
+    ]);
+
+    expect(photo.id).toBe('7');
+    expect(photo.thumbnail).toBe('https://json11.example/photos/7.jpg');
+    expect(photo.content).toBe('<p><img src="https://json11.example/photos/7.jpg"></p>');
+  });
+
+  it('falls back to Media RSS for items without text', async () => {
+    const feed = await parseFeed(youtubeMediaRss, 'https://www.youtube.com/feeds/videos.xml?channel_id=UCexample');
+    const [video] = feed.items;
+    expect(video.id).toBe('yt:video:abc123');
+    expect(video.summary).toBe('We build a B-tree from scratch.<br>Part 1 of 3.');
+    expect(video.content).toBe(
+      '<p><img src="https://i1.ytimg.com/vi/abc123/hqdefault.jpg"></p><p>We build a B-tree from scratch.<br>Part 1 of 3.</p>'
+    );
+    expect(video.thumbnail).toBe('https://i1.ytimg.com/vi/abc123/hqdefault.jpg');
+  });
+
+  it('keeps the text of items that also carry a thumbnail', async () => {
+    const feed = await parseFeed(rssMediaThumbnail, 'https://photos.example/feed');
+    const [described, bare] = feed.items;
+
+    expect(described.summary).toBe('<p>The story behind this photo.</p>');
+    expect(described.content).toBeUndefined();
+    expect(described.thumbnail).toBe('https://photos.example/thumbs/described.jpg');
+
+    expect(described.linkInferred).toBe(false);
+    // No <link>: the feed URL stands in and is flagged as not the item's own
+    expect(bare.link).toBe('https://photos.example/feed');
+    expect(bare.linkInferred).toBe(true);
+    expect(bare.content).toBe('<p><img src="https://photos.example/full/bare.jpg"></p>');
+    expect(bare.enclosures).toEqual([{ url: 'https://photos.example/full/bare.jpg', type: 'image/jpeg' }]);
+  });
+
+  it('names the root element of documents in no known format', async () => {
+    const error = await parseFeed(htmlPage, 'https://example.com/').catch(error => error);
+    expect(error).toBeInstanceOf(FeedParseError);
+    expect(error).toMatchObject({ category: 'parse', reason: 'unrecognized_format', root: 'html' });
+  });
+
+  it('rejects malformed JSON', async () => {
+    await expect(parseFeed('{"version": ', 'https://example.com/feed.json'))
+      .rejects.toMatchObject({ reason: 'invalid_json' });
+  });
+});
+
+describe('readFeedBody', () => {
+  it('rejects an HTML page served as XML', async () => {
+    const response = new Response(htmlPage, { headers: { 'Content-Type': 'text/xml' } });
+    await expect(readFeedBody(response, 1 << 20)).rejects.toMatchObject({ category: 'not_feed' });
+  });
+
+  it('accepts a feed', async () => {
+    const response = new Response(hugoAtom, { headers: { 'Content-Type': 'application/atom+xml' } });
+    const { text } = await readFeedBody(response, 1 << 20);
+    expect(text).toContain('<feed');
+  });
+});
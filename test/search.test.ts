@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchParams } from '../src/search';
+
+function parse(query: string) {
+  return parseSearchParams(new URLSearchParams(query));
+}
+
+describe('parseSearchParams', () => {
+  it('reads paging parameters', () => {
+    expect(parse('q=postgres&limit=5&offset=10').search).toMatchObject({ query: 'postgres', limit: 5, offset: 10 });
+  });
+
+  it.each([
+    'q=postgres&limit=10abc',
+    'q=postgres&limit=',
+    'q=postgres&limit=-1',
+    'q=postgres&limit=0',
+    'q=postgres&offset=5.9',
+    'q=postgres&offset=-1',
+    'q=postgres&offset=1e3',
+  ])('rejects %s', query => {
+    expect(parse(query).error).toBeDefined();
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assertPublicUrl, isBlockedIP, isPublicUrl } from '../src/ssrf';
+import type { Env } from '../src/types';
+
+const DOH_URL = 'https://dns.example/dns-query';
+
+// Just the bindings assertPublicUrl reads
+function envWithDoh(): Env {
+  return { SSRF_DOH_URL: DOH_URL } as Env;
+}
+
+// Answer DoH queries from a table of hostname -> records
+function stubDoh(records: Record<string, { A?: string[]; AAAA?: string[] }>, status = 0) {
+  const fetchMock = vi.fn(async (input: string) => {
+    const query = new URL(input);
+    const type = query.searchParams.get('type') as 'A' | 'AAAA';
+    const addresses = records[query.searchParams.get('name')!]?.[type] || [];
+    return Response.json({
+      Status: status,
+      Answer: addresses.map(data => ({ type: type === 'A' ? 1 : 28, data, TTL: 60 })),
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('isPublicUrl', () => {
+  it.each([
+    ['decimal IPv4', 'http://2130706433/'],
+    ['octal IPv4', 'http://0177.1/'],
+    ['hex IPv4', 'http://0x7f.1/'],
+    ['dotted hex IPv4', 'http://0x7f.0x0.0x0.0x1/'],
+    ['short IPv4', 'http://127.1/'],
+    ['IPv4-mapped IPv6', 'http://[::ffff:127.0.0.1]/'],
+    ['IPv4-mapped IPv6 in hex', 'http://[::ffff:7f00:1]/'],
+    ['NAT64 loopback', 'http://[64:ff9b::127.0.0.1]/'],
+    ['NAT64 private', 'http://[64:ff9b::a00:1]/'],
+    ['6to4 loopback', 'http://[2002:7f00:1::]/'],
+    ['6to4 private', 'http://[2002:c0a8:101::1]/'],
+    ['unique local IPv6', 'http://[fc00::1]/'],
+    ['unique local IPv6 (fd)', 'http://[fd12:3456::1]/'],
+    ['link-local IPv6', 'http://[fe80::1]/'],
+    ['IPv6 loopback', 'http://[::1]/'],
+    ['carrier-grade NAT', 'http://100.64.0.1/'],
+    ['carrier-grade NAT upper bound', 'http://100.127.255.254/'],
+    ['link-local IPv4', 'http://169.254.169.254/latest/meta-data/'],
+    ['private IPv4', 'http://192.168.1.1/'],
+    ['unspecified IPv4', 'http://0.0.0.0/'],
+    ['localhost', 'http://localhost/'],
+    ['trailing-dot localhost', 'http://localhost./'],
+    ['localhost subdomain', 'http://feed.localhost/'],
+    ['.internal name', 'http://metadata.google.internal/'],
+    ['single-label host', 'http://intranet/'],
+    ['single-label host with trailing dot', 'http://intranet./'],
+    ['non-http scheme', 'file:///etc/passwd'],
+  ])('blocks %s', (_name, url) => {
+    expect(isPublicUrl(url)).toBe(false);
+  });
+
+  it.each([
+    'https://example.com/feed.xml',
+    'http://example.com./feed',
+    'http://93.184.215.14/',
+    'http://100.128.0.1/',
+    'http://[2606:4700::1111]/',
+    'http://[64:ff9b::808:808]/',
+  ])('allows %s', url => {
+    expect(isPublicUrl(url)).toBe(true);
+  });
+});
+
+describe('isBlockedIP', () => {
+  it('returns null for hostnames', () => {
+    expect(isBlockedIP('example.com')).toBeNull();
+  });
+
+  it('classifies range boundaries', () => {
+    expect(isBlockedIP('100.63.255.255')).toBe(false);
+    expect(isBlockedIP('100.64.0.0')).toBe(true);
+    expect(isBlockedIP('169.254.0.0')).toBe(true);
+    expect(isBlockedIP('169.255.0.0')).toBe(false);
+    expect(isBlockedIP('fbff::1')).toBe(false);
+    expect(isBlockedIP('fe80::')).toBe(true);
+    expect(isBlockedIP('febf:ffff::1')).toBe(true);
+  });
+});
+
+describe('assertPublicUrl with DNS-over-HTTPS', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('allows hosts whose records are all public', async () => {
+    stubDoh({ 'public.example': { A: ['93.184.215.14'], AAAA: ['2606:2800:21f:cb07:6820:80da:af6b:8b2c'] } });
+    await expect(assertPublicUrl(envWithDoh(), 'https://public.example/feed')).resolves.toBeUndefined();
+  });
+
+  it('blocks a private A record', async () => {
+    stubDoh({ 'rebind-a.example': { A: ['93.184.215.14', '10.0.0.5'] } });
+    await expect(assertPublicUrl(envWithDoh(), 'https://rebind-a.example/feed'))
+      .rejects.toMatchObject({ category: 'blocked_url' });
+  });
+
+  it('blocks a private AAAA record', async () => {
+    stubDoh({ 'rebind-aaaa.example': { A: ['93.184.215.14'], AAAA: ['fd00::1'] } });
+    await expect(assertPublicUrl(envWithDoh(), 'https://rebind-aaaa.example/feed'))
+      .rejects.toMatchObject({ category: 'blocked_url' });
+  });
+
+  it('blocks an IPv4-mapped AAAA record', async () => {
+    stubDoh({ 'mapped.example': { AAAA: ['::ffff:169.254.169.254'] } });
+    await expect(assertPublicUrl(envWithDoh(), 'https://mapped.example/feed'))
+      .rejects.toMatchObject({ category: 'blocked_url' });
+  });
+
+  it('reports hosts without address records as dns failures', async () => {
+    stubDoh({});
+    await expect(assertPublicUrl(envWithDoh(), 'https://nxdomain.example/feed'))
+      .rejects.toMatchObject({ category: 'dns' });
+  });
+
+  it('reports resolver errors as dns failures', async () => {
+    stubDoh({ 'servfail.example': { A: ['93.184.215.14'] } }, 2);
+    await expect(assertPublicUrl(envWithDoh(), 'https://servfail.example/feed'))
+      .rejects.toMatchObject({ category: 'dns' });
+  });
+
+  it('does not cache empty answers', async () => {
+    stubDoh({});
+    await expect(assertPublicUrl(envWithDoh(), 'https://late.example/feed'))
+      .rejects.toMatchObject({ category: 'dns' });
+    stubDoh({ 'late.example': { A: ['93.184.215.14'] } });
+    await expect(assertPublicUrl(envWithDoh(), 'https://late.example/feed')).resolves.toBeUndefined();
+  });
+
+  it('skips resolution for IP literals', async () => {
+    const fetchMock = stubDoh({});
+    await assertPublicUrl(envWithDoh(), 'http://93.184.215.14/feed');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('blocks literals without resolving', async () => {
+    const fetchMock = stubDoh({});
+    await expect(assertPublicUrl(envWithDoh(), 'http://0x7f.1/')).rejects.toMatchObject({ category: 'blocked_url' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});